@@ -0,0 +1,66 @@
+/**
+ * ============================================================================
+ * ENEMY AI
+ * ============================================================================
+ *
+ * Server-side enemy turns: perception, memory and dispatch to the enemy's
+ * behavior (see game-behaviors.ts).
+ *
+ * PERCEPTION:
+ * - An enemy sees the player when the player's tile is in its field of
+ *   view (game-fov.ts) within actor.sight (CHASE_DISTANCE if unset)
+ * - Seeing the player stores their position in actor.lastSeen and resets
+ *   actor.alertTurns to ENEMY_MEMORY_TURNS
+ * - Out of sight, the enemy heads for lastSeen; it gives up when it gets
+ *   there or when alertTurns runs out
+ *
+ * WHEN ENEMIES ACT:
+ * game-turns.ts calls enemyAct() whenever an enemy has enough energy, so
+ * fast enemies act more often than slow ones.
+ * ============================================================================
+ */
+
+import { CHASE_DISTANCE, ENEMY_MEMORY_TURNS } from './game-constants.ts';
+import { canSee } from './game-fov.ts';
+import { getBehavior } from './game-behaviors.ts';
+import type { Awareness } from './game-behaviors.ts';
+import type { Enemy, GameState } from './game-constants.ts';
+
+/**
+ * Updates an enemy's knowledge of the player's whereabouts
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Enemy actor
+ * @returns {Awareness} What the enemy knows this turn
+ */
+export function perceive(gameState: GameState, actor: Enemy): Awareness {
+  const player = gameState.player;
+  const sight = actor.sight ?? CHASE_DISTANCE;
+
+  if (canSee(gameState, actor, player, sight)) {
+    actor.lastSeen = { x: player.x, y: player.y };
+    actor.alertTurns = ENEMY_MEMORY_TURNS;
+    return { seesPlayer: true, target: actor.lastSeen };
+  }
+
+  if (actor.lastSeen) {
+    const arrived = actor.x === actor.lastSeen.x && actor.y === actor.lastSeen.y;
+    actor.alertTurns--;
+    if (arrived || actor.alertTurns <= 0) {
+      actor.lastSeen = null;
+      actor.alertTurns = 0;
+    }
+  }
+
+  return { seesPlayer: false, target: actor.lastSeen || null };
+}
+
+/**
+ * Lets a single enemy take its turn
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Enemy actor
+ * @returns {boolean} True if the enemy moved or attacked
+ */
+export function enemyAct(gameState: GameState, actor: Enemy): boolean {
+  const awareness = perceive(gameState, actor);
+  return getBehavior(actor.behavior).act(gameState, actor, awareness);
+}
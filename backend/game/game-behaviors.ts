@@ -0,0 +1,181 @@
+/**
+ * ============================================================================
+ * ENEMY BEHAVIORS
+ * ============================================================================
+ *
+ * Pluggable enemy behaviors. Every bestiary entry names a behavior
+ * (Actor.behavior) and game-ai.ts looks it up here on each enemy turn.
+ *
+ * BEHAVIOR INTERFACE:
+ *   act(gameState, actor, awareness) => boolean
+ *   - awareness.seesPlayer - The player is in the actor's field of view
+ *   - awareness.target     - Where the actor believes the player is: the
+ *                            player's tile when seen, the last seen tile
+ *                            while remembered, otherwise null
+ *   - returns true if the actor moved or attacked
+ *
+ * BUILT-IN BEHAVIORS:
+ * - chaser - Paths to the target and attacks in melee; wanders without one
+ * - caster - Casts its spell when it sees the player within range,
+ *            otherwise behaves like a chaser
+ * - thief  - Chases and steals an item on a hit, then flees
+ * - turret - Never moves, casts its spell when it sees the player in range
+ * - guard  - Chases the player it knows about, otherwise heads back to its
+ *            post (see game-bosses.ts)
+ * - boss   - Uses its phase's special attacks, otherwise behaves like a guard
+ *
+ * New behaviors are added with registerBehavior().
+ * ============================================================================
+ */
+
+import { BEHAVIORS } from './game-constants.ts';
+import { attackActor, pushEvent } from './game-combat.ts';
+import { stealItem } from './game-items.ts';
+import { stepTowards, stepAway, wander } from './game-pathfinding.ts';
+import { lineTiles } from './game-ranged.ts';
+import { bossTurn, returnToPost } from './game-bosses.ts';
+import type { AttackEvent, Enemy, GameState, Player, Position } from './game-constants.ts';
+
+/**
+ * What an enemy knows this turn (see perceive in game-ai.ts)
+ */
+export interface Awareness {
+  seesPlayer: boolean;      // Whether the player is in view
+  target: Position | null;  // Believed player position
+}
+
+/**
+ * Enemy behavior implementation
+ */
+export interface Behavior {
+  act(gameState: GameState, actor: Enemy, awareness: Awareness): boolean;
+}
+
+/**
+ * Checks whether the player is within an actor's ranged attack
+ * @param {Actor} actor - Enemy actor
+ * @param {Actor} player - Player actor
+ * @returns {boolean} True if the player is within range (Chebyshev)
+ */
+function inRange(actor: Enemy, player: Player): boolean {
+  return Math.max(Math.abs(player.x - actor.x), Math.abs(player.y - actor.y)) <= (actor.range || 0);
+}
+
+/**
+ * Hits the player with the actor's spell
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Enemy actor
+ * @returns {Object} The attack event
+ */
+function castSpell(gameState: GameState, actor: Enemy): AttackEvent {
+  const player = gameState.player;
+  pushEvent(gameState, {
+    type: 'projectile',
+    projectile: 'spell',
+    actorId: actor.id,
+    itemId: null,
+    fromX: actor.x,
+    fromY: actor.y,
+    path: lineTiles(actor, player),
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+  return attackActor(gameState, actor, gameState.player, { dice: actor.spell, ranged: true });
+}
+
+const chaser: Behavior = {
+  act(gameState, actor, awareness) {
+    if (!awareness.target) {
+      return !!wander(gameState, actor);
+    }
+    return !!stepTowards(gameState, actor, awareness.target);
+  }
+};
+
+const caster: Behavior = {
+  act(gameState, actor, awareness) {
+    if (awareness.seesPlayer && inRange(actor, gameState.player)) {
+      castSpell(gameState, actor);
+      return true;
+    }
+    return chaser.act(gameState, actor, awareness);
+  }
+};
+
+const thief: Behavior = {
+  act(gameState, actor, awareness) {
+    const player = gameState.player;
+
+    // Loaded thieves run
+    if (actor.inventory.length > 0) {
+      return !!(awareness.seesPlayer ? stepAway(gameState, actor, player) : wander(gameState, actor));
+    }
+
+    if (!awareness.target) {
+      return !!wander(gameState, actor);
+    }
+
+    const result = stepTowards(gameState, actor, awareness.target);
+    if (result && result.attack && result.attack.hit && player.hp > 0) {
+      stealItem(gameState, actor, player);
+    }
+    return !!result;
+  }
+};
+
+const turret: Behavior = {
+  act(gameState, actor, awareness) {
+    if (awareness.seesPlayer && inRange(actor, gameState.player)) {
+      castSpell(gameState, actor);
+      return true;
+    }
+    return false;
+  }
+};
+
+const guard: Behavior = {
+  act(gameState, actor, awareness) {
+    if (awareness.target) {
+      return !!stepTowards(gameState, actor, awareness.target);
+    }
+    return !!returnToPost(gameState, actor);
+  }
+};
+
+const boss: Behavior = {
+  act(gameState, actor, awareness) {
+    return bossTurn(gameState, actor, awareness) || guard.act(gameState, actor, awareness);
+  }
+};
+
+// Behavior registry, keyed by behavior ID
+const behaviors = new Map<string, Behavior>([
+  [BEHAVIORS.CHASER, chaser],
+  [BEHAVIORS.CASTER, caster],
+  [BEHAVIORS.THIEF, thief],
+  [BEHAVIORS.TURRET, turret],
+  [BEHAVIORS.GUARD, guard],
+  [BEHAVIORS.BOSS, boss]
+]);
+
+/**
+ * Registers (or replaces) a behavior
+ * @param {string} id - Behavior ID, as used in bestiary definitions
+ * @param {Behavior} behavior - Behavior implementation
+ */
+export function registerBehavior(id: string, behavior: Behavior) {
+  if (!behavior || typeof behavior.act !== 'function') {
+    throw new Error(`Behavior ${id} must implement act()`);
+  }
+  behaviors.set(id, behavior);
+}
+
+/**
+ * Looks up a behavior, falling back to the chaser
+ * @param {string} id - Behavior ID
+ * @returns {Behavior} Behavior implementation
+ */
+export function getBehavior(id: string): Behavior {
+  return behaviors.get(id) || chaser;
+}
@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * BESTIARY
+ * ============================================================================
+ *
+ * Data-driven monster definitions and the spawn tables that pick which
+ * monsters populate each floor.
+ *
+ * DEFINITION FIELDS:
+ * - hp, damage, defense, toHit - Base combat stats (see game-combat.ts)
+ * - speed    - Energy gained per turn, 100 is normal (see game-turns.ts)
+ * - sight    - Sight radius (field of view, see game-ai.ts)
+ * - behavior - AI behavior (see game-behaviors.ts)
+ * - range, spell - Ranged attack reach and dice (casters and turrets)
+ * - onHit    - Status effect its hits may inflict (see game-effects.ts)
+ * - xp, loot - Experience granted and loot table rolled on death
+ *
+ * Bosses and their minions are listed here too, but never in the spawn
+ * table: game-bosses.ts places them on the last floor.
+ *
+ * DEPTH SCALING:
+ * Every floor below the first adds ENEMY_HP_PER_DEPTH hit points and one
+ * XP; every second floor adds one point of damage.
+ * ============================================================================
+ */
+
+import { BEHAVIORS, STATUS_EFFECTS } from './game-constants.ts';
+import { pickWeighted } from './game-rng.ts';
+import type { Enemy, OnHitEffect, RngHolder } from './game-constants.ts';
+
+/**
+ * Monster definition (see DEFINITION FIELDS above)
+ */
+export interface MonsterDefinition {
+  name: string;
+  hp: number;
+  damage: string;
+  defense?: number;
+  toHit?: number;
+  speed: number;
+  sight: number;
+  behavior: string;
+  range?: number;
+  spell?: string;
+  onHit?: OnHitEffect;
+  xp: number;
+  loot: string | null;
+}
+
+// Extra hit points per floor below the first
+const ENEMY_HP_PER_DEPTH = 2;
+
+/**
+ * Monster catalog, keyed by kind
+ */
+export const BESTIARY: Record<string, MonsterDefinition> = {
+  rat: {
+    name: 'Giant rat',
+    hp: 6,
+    damage: 'd3+1',
+    speed: 120,
+    sight: 5,
+    behavior: BEHAVIORS.CHASER,
+    xp: 3,
+    loot: null
+  },
+  orc: {
+    name: 'Orc',
+    hp: 10,
+    damage: 'd4+1',
+    speed: 100,
+    sight: 6,
+    behavior: BEHAVIORS.CHASER,
+    xp: 5,
+    loot: 'common'
+  },
+  goblin_thief: {
+    name: 'Goblin thief',
+    hp: 8,
+    damage: 'd3',
+    toHit: 2,
+    speed: 120,
+    sight: 7,
+    behavior: BEHAVIORS.THIEF,
+    xp: 6,
+    loot: 'common'
+  },
+  kobold_shaman: {
+    name: 'Kobold shaman',
+    hp: 8,
+    damage: 'd3',
+    speed: 100,
+    sight: 7,
+    behavior: BEHAVIORS.CASTER,
+    range: 5,
+    spell: 'd6+1',
+    xp: 8,
+    loot: 'common'
+  },
+  spore_pod: {
+    name: 'Spore pod',
+    hp: 14,
+    damage: 'd4',
+    speed: 100,
+    sight: 5,
+    behavior: BEHAVIORS.TURRET,
+    range: 4,
+    spell: 'd4+1',
+    onHit: { effect: STATUS_EFFECTS.POISON, turns: 4, chance: 0.5 },
+    xp: 6,
+    loot: null
+  },
+  troll: {
+    name: 'Troll',
+    hp: 30,
+    damage: '2d4+2',
+    defense: 1,
+    speed: 80,
+    sight: 6,
+    behavior: BEHAVIORS.CHASER,
+    onHit: { effect: STATUS_EFFECTS.STUN, turns: 1, chance: 0.2 },
+    xp: 20,
+    loot: 'common'
+  },
+  skeleton: {
+    name: 'Skeleton',
+    hp: 10,
+    damage: 'd6',
+    defense: 1,
+    speed: 100,
+    sight: 7,
+    behavior: BEHAVIORS.CHASER,
+    xp: 4,
+    loot: null
+  },
+  orc_warlord: {
+    name: 'Orc warlord',
+    hp: 60,
+    damage: 'd10+2',
+    defense: 2,
+    toHit: 2,
+    speed: 100,
+    sight: 8,
+    behavior: BEHAVIORS.BOSS,
+    xp: 100,
+    loot: null
+  },
+  lich: {
+    name: 'Lich',
+    hp: 45,
+    damage: 'd6+1',
+    defense: 1,
+    toHit: 2,
+    speed: 100,
+    sight: 9,
+    behavior: BEHAVIORS.BOSS,
+    xp: 100,
+    loot: null
+  }
+};
+
+/**
+ * Monsters spawning on each floor, with the depths they can appear on
+ */
+export const SPAWN_TABLE = [
+  { kind: 'rat', weight: 10, minDepth: 1, maxDepth: 2 },
+  { kind: 'orc', weight: 10, minDepth: 1, maxDepth: 5 },
+  { kind: 'goblin_thief', weight: 3, minDepth: 1, maxDepth: 5 },
+  { kind: 'kobold_shaman', weight: 4, minDepth: 2, maxDepth: 5 },
+  { kind: 'spore_pod', weight: 3, minDepth: 2, maxDepth: 5 },
+  { kind: 'troll', weight: 2, minDepth: 4, maxDepth: 5 }
+];
+
+/**
+ * Lists the spawn table entries for a floor
+ * @param {number} depth - Floor depth (1-based)
+ * @returns {Array<Object>} Weighted entries
+ */
+export function getSpawnTable(depth: number) {
+  return SPAWN_TABLE.filter(entry => entry.minDepth <= depth && depth <= entry.maxDepth);
+}
+
+/**
+ * Picks a monster kind for a floor
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @returns {string} Monster kind
+ */
+export function pickEnemyKind(floorRng: RngHolder, depth: number): string {
+  return pickWeighted(floorRng, getSpawnTable(depth)).kind;
+}
+
+/**
+ * Creates a monster scaled to the floor depth
+ * @param {string} kind - Bestiary key
+ * @param {string} id - Unique actor ID
+ * @param {number} x - X coordinate
+ * @param {number} y - Y coordinate
+ * @param {number} depth - Floor depth (1-based)
+ * @returns {Actor} Enemy actor
+ */
+export function createEnemy(kind: string, id: string, x: number, y: number, depth: number): Enemy {
+  const definition = BESTIARY[kind];
+  if (!definition) {
+    throw new Error(`Unknown monster kind: ${kind}`);
+  }
+
+  const hp = definition.hp + (depth - 1) * ENEMY_HP_PER_DEPTH;
+
+  return {
+    id,
+    kind,
+    name: definition.name,
+    hp,
+    maxHp: hp,
+    x,
+    y,
+    isPlayer: false,
+    damage: definition.damage,
+    damageBonus: Math.floor((depth - 1) / 2),
+    defense: definition.defense || 0,
+    toHit: definition.toHit || 0,
+    speed: definition.speed,
+    energy: 0,
+    sight: definition.sight,
+    behavior: definition.behavior,
+    range: definition.range || 0,
+    spell: definition.spell || null,
+    xp: definition.xp + (depth - 1),
+    loot: definition.loot,
+    inventory: [],
+    onHit: definition.onHit || null,
+    effects: [],
+    lastSeen: null,
+    alertTurns: 0,
+    post: null,
+    isBoss: false,
+    phase: 0,
+    cooldowns: {},
+    summoned: 0,
+    summonerId: null
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import { createGame } from './game-init.ts';
+import { enterFloor } from './game-floors.ts';
+import { removeActor } from './game-combat.ts';
+import { checkGameOver } from './game-rules.ts';
+import { BOSSES, bossTurn } from './game-bosses.ts';
+import { END_CONDITIONS } from './game-constants.ts';
+import type { Enemy, GameState } from './game-constants.ts';
+
+const PLAYER_EOA = '0x1111111111111111111111111111111111111111';
+
+// A game on the last floor, where the boss waits by the exit
+function bossFloor(): { gameState: GameState; boss: Enemy } {
+  const gameState = createGame(PLAYER_EOA, { seed: 1 });
+  enterFloor(gameState, gameState.maxDepth);
+  gameState.events = [];
+
+  const boss = gameState.actorList.find(actor => actor.id === gameState.bossId) as Enemy;
+  return { gameState, boss };
+}
+
+// The boss turn of a boss that does not see the player (no specials)
+function idleTurn(gameState: GameState, boss: Enemy) {
+  bossTurn(gameState, boss, { seesPlayer: false, target: null });
+}
+
+describe('boss phases', () => {
+  test('stays in its first phase above the threshold', () => {
+    const { gameState, boss } = bossFloor();
+    boss.hp = Math.ceil(BOSSES[boss.kind]!.phases[1]!.below! * boss.maxHp) + 1;
+
+    idleTurn(gameState, boss);
+
+    expect(boss.phase).toBe(0);
+    expect(gameState.events).toEqual([]);
+  });
+
+  test('moves on to the next phase once its HP drops to the threshold', () => {
+    const { gameState, boss } = bossFloor();
+    const next = BOSSES[boss.kind]!.phases[1]!;
+    boss.hp = Math.floor(next.below! * boss.maxHp);
+    boss.cooldowns = { summon: 5 };
+
+    idleTurn(gameState, boss);
+
+    expect(boss.phase).toBe(1);
+    expect(boss.cooldowns).toEqual({});
+    expect(gameState.events).toContainEqual(expect.objectContaining({ type: 'bossPhase', actorId: boss.id, phase: 1, name: next.name }));
+  });
+
+  test('skips to the phase its HP calls for', () => {
+    const { gameState, boss } = bossFloor();
+    const phases = BOSSES[boss.kind]!.phases;
+    boss.hp = 1;
+
+    idleTurn(gameState, boss);
+
+    expect(boss.phase).toBe(phases.length - 1);
+  });
+});
+
+describe('checkGameOver on the last floor', () => {
+  test('keeps the exit sealed while the boss lives', () => {
+    const { gameState } = bossFloor();
+    gameState.player.x = gameState.exit!.x;
+    gameState.player.y = gameState.exit!.y;
+
+    expect(checkGameOver(gameState)).toBe(false);
+  });
+
+  test('does not end the run when the boss dies away from the exit', () => {
+    const { gameState, boss } = bossFloor();
+    expect(gameState.actorList.filter(actor => !actor.isPlayer).length).toBeGreaterThan(1);
+
+    removeActor(gameState, boss);
+
+    expect(checkGameOver(gameState)).toBe(false);
+  });
+
+  test('wins once the player reaches the exit after killing the boss', () => {
+    const { gameState, boss } = bossFloor();
+    removeActor(gameState, boss);
+    gameState.player.x = gameState.exit!.x;
+    gameState.player.y = gameState.exit!.y;
+
+    expect(checkGameOver(gameState)).toBe(true);
+    expect(gameState.winner).toBe('player1');
+    expect(gameState.endCondition).toBe(END_CONDITIONS.BOSS_DEFEATED);
+  });
+});
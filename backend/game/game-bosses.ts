@@ -0,0 +1,361 @@
+/**
+ * ============================================================================
+ * BOSSES
+ * ============================================================================
+ *
+ * The last floor ends with a boss fight. The boss (stats in game-bestiary.ts)
+ * waits next to the exit with a few guards of its minion kind; the exit stays
+ * sealed while it lives, and reaching it once the boss is dead wins the run
+ * (see game-rules.ts).
+ *
+ * PHASES:
+ * A boss starts in phase 0. At the start of each of its turns, it moves on
+ * to the next phase once its HP has dropped to `below` of its maxHp. A new
+ * phase announces itself ('bossPhase' event), resets the special cooldowns
+ * and may put a status effect on the boss (the warlord's enrage).
+ *
+ * SPECIALS (tried in order while the boss sees the player; the first usable
+ * one ready is used instead of moving or attacking, then waits `cooldown`
+ * boss turns):
+ * - bolt   - Ranged attack with a clear line of fire, never at melee range
+ * - nova   - Blast hitting the player within `radius`
+ * - summon - `count` minions on free tiles next to the boss, at most
+ *            MAX_MINIONS alive at a time
+ *
+ * Without a special to use, bosses and their guards behave as guards (see
+ * game-behaviors.ts): they chase the player they know about, and otherwise
+ * head back to their post by the exit.
+ * ============================================================================
+ */
+
+import { BEHAVIORS, MOVE_VECTORS, STATUS_EFFECTS, ENEMY_MEMORY_TURNS } from './game-constants.ts';
+import { randomIndex, shuffle } from './game-rng.ts';
+import { attackActor, pushEvent } from './game-combat.ts';
+import { createEnemy } from './game-bestiary.ts';
+import { getFeature, isPathable, reachableTiles } from './game-features.ts';
+import { stepTowards } from './game-pathfinding.ts';
+import { traceProjectile } from './game-ranged.ts';
+import { applyEffect } from './game-effects.ts';
+import type { Enemy, FloorMap, Feature, GameState, Position, RngHolder } from './game-constants.ts';
+import type { Awareness } from './game-behaviors.ts';
+
+// Distance (Chebyshev) a guard may stray from its post before heading back
+const GUARD_RADIUS = 2;
+
+// Most summoned minions a boss can have alive at a time
+const MAX_MINIONS = 4;
+
+/**
+ * A boss special attack (see SPECIALS)
+ */
+export interface BossSpecial {
+  id: string;          // Key in SPECIALS
+  cooldown: number;    // Boss turns to wait after using it
+  range?: number;      // bolt: longest reach
+  dice?: string;       // bolt, nova: damage dice
+  projectile?: string; // bolt: projectile clients draw
+  radius?: number;     // nova: blast radius
+  count?: number;      // summon: minions per use
+}
+
+/**
+ * A phase of a boss fight
+ */
+export interface BossPhase {
+  name: string;                           // Display name of the boss in this phase
+  below?: number;                         // Fraction of maxHp the phase starts at (not phase 0)
+  effect?: { id: string; turns: number }; // Status effect the boss gets on entering it
+  specials: BossSpecial[];                // Specials, in the order they are tried
+}
+
+/**
+ * A boss encounter
+ */
+export interface BossDefinition {
+  minion: string;      // Bestiary kind of its guards and summoned minions
+  guards: number;      // Guards placed next to it
+  phases: BossPhase[]; // Phases, in order
+}
+
+/**
+ * Boss encounters, keyed by bestiary kind
+ */
+export const BOSSES: Record<string, BossDefinition> = {
+  orc_warlord: {
+    minion: 'orc',
+    guards: 2,
+    phases: [
+      { name: 'Orc warlord', specials: [{ id: 'summon', count: 2, cooldown: 12 }] },
+      {
+        name: 'Enraged orc warlord',
+        below: 0.5,
+        effect: { id: STATUS_EFFECTS.HASTE, turns: 20 },
+        specials: [
+          { id: 'nova', radius: 1, dice: '2d6+2', cooldown: 3 },
+          { id: 'summon', count: 2, cooldown: 10 }
+        ]
+      }
+    ]
+  },
+  lich: {
+    minion: 'skeleton',
+    guards: 2,
+    phases: [
+      { name: 'Lich', specials: [{ id: 'bolt', range: 6, dice: '2d6', cooldown: 2, projectile: 'shadow' }] },
+      {
+        name: 'Awakened lich',
+        below: 0.6,
+        specials: [
+          { id: 'summon', count: 3, cooldown: 8 },
+          { id: 'bolt', range: 6, dice: '2d6', cooldown: 2, projectile: 'shadow' }
+        ]
+      },
+      {
+        name: 'Desperate lich',
+        below: 0.25,
+        specials: [
+          { id: 'nova', radius: 2, dice: '3d4', cooldown: 4 },
+          { id: 'bolt', range: 6, dice: '2d6+2', cooldown: 1, projectile: 'shadow' }
+        ]
+      }
+    ]
+  }
+};
+
+/**
+ * Gets the Chebyshev distance between two positions
+ * @param {Position} a - First position
+ * @param {Position} b - Second position
+ * @returns {number} Distance in steps
+ */
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+/**
+ * A special attack; returns true if it was used
+ */
+type Special = (gameState: GameState, boss: Enemy, special: BossSpecial, definition: BossDefinition) => boolean;
+
+/**
+ * Special attacks, keyed by special ID. Each returns true if it was used.
+ */
+const SPECIALS: Record<string, Special> = {
+  bolt(gameState, boss, special) {
+    const player = gameState.player;
+    const range = distance(boss, player);
+    if (range < 2 || range > special.range!) {
+      return false;
+    }
+
+    const path = traceProjectile(gameState, boss, player);
+    const end = path && path[path.length - 1];
+    if (!end || end.x !== player.x || end.y !== player.y) {
+      return false;
+    }
+
+    pushEvent(gameState, {
+      type: 'projectile',
+      projectile: special.projectile,
+      actorId: boss.id,
+      itemId: null,
+      fromX: boss.x,
+      fromY: boss.y,
+      path,
+      x: player.x,
+      y: player.y,
+      gameTime: gameState.gameTime
+    });
+    attackActor(gameState, boss, player, { dice: special.dice, ranged: true });
+    return true;
+  },
+
+  nova(gameState, boss, special) {
+    const player = gameState.player;
+    if (distance(boss, player) > special.radius!) {
+      return false;
+    }
+
+    pushEvent(gameState, {
+      type: 'bossSpecial',
+      special: special.id,
+      actorId: boss.id,
+      radius: special.radius,
+      x: boss.x,
+      y: boss.y,
+      gameTime: gameState.gameTime
+    });
+    attackActor(gameState, boss, player, { dice: special.dice });
+    return true;
+  },
+
+  summon(gameState, boss, special, definition) {
+    const alive = gameState.actorList.filter(actor => !actor.isPlayer && actor.summonerId === boss.id).length;
+    const count = Math.min(special.count!, MAX_MINIONS - alive);
+    if (count <= 0) {
+      return false;
+    }
+
+    const tiles = shuffle(gameState, MOVE_VECTORS)
+      .map(d => ({ x: boss.x + d.x, y: boss.y + d.y }))
+      .filter(tile => isPathable(gameState, tile.x, tile.y)
+        && !getFeature(gameState, tile.x, tile.y)
+        && !gameState.actorMap[tile.x + '_' + tile.y])
+      .slice(0, count);
+    if (tiles.length === 0) {
+      return false;
+    }
+
+    const player = gameState.player;
+    const minionIds = tiles.map(tile => {
+      boss.summoned++;
+      const minion = createEnemy(definition.minion, `${boss.id}_minion_${boss.summoned}`, tile.x, tile.y, gameState.depth);
+      minion.summonerId = boss.id;
+      minion.lastSeen = { x: player.x, y: player.y };
+      minion.alertTurns = ENEMY_MEMORY_TURNS;
+      gameState.actorList.push(minion);
+      gameState.actorMap[tile.x + '_' + tile.y] = minion;
+      return minion.id;
+    });
+
+    pushEvent(gameState, {
+      type: 'summon',
+      actorId: boss.id,
+      minionIds,
+      x: boss.x,
+      y: boss.y,
+      gameTime: gameState.gameTime
+    });
+    return true;
+  }
+};
+
+/**
+ * Places the boss of the last floor and its guards on the free tiles
+ * closest to the exit
+ * @param {RngHolder} floorRng - RNG holder for the floor
+ * @param {number} depth - Floor depth (1-based)
+ * @param {FloorMap} map - Floor map
+ * @param {Object.<string, Feature>} features - Tile features
+ * @param {Position} exit - Dungeon exit
+ * @param {Object.<string, boolean>} occupied - Tiles already taken ("x_y", updated)
+ * @returns {Array<Enemy>} The boss first, then its guards (empty if there is no room)
+ */
+export function placeBoss(
+  floorRng: RngHolder,
+  depth: number,
+  map: FloorMap,
+  features: Record<string, Feature>,
+  exit: Position,
+  occupied: Record<string, boolean>
+): Enemy[] {
+  const kinds = Object.keys(BOSSES);
+  const kind = kinds[randomIndex(floorRng, kinds.length)]!;
+  const definition = BOSSES[kind]!;
+
+  // Breadth-first order: nearest tiles first
+  const tiles = reachableTiles(map, features, exit, true)
+    .filter(tile => !occupied[tile.x + '_' + tile.y] && !features[tile.x + '_' + tile.y])
+    .slice(0, definition.guards + 1);
+
+  return tiles.map((tile, index) => {
+    occupied[tile.x + '_' + tile.y] = true;
+
+    const actor = index === 0
+      ? createEnemy(kind, `boss_${depth}`, tile.x, tile.y, depth)
+      : createEnemy(definition.minion, `guard_${depth}_${index}`, tile.x, tile.y, depth);
+    actor.post = { x: exit.x, y: exit.y };
+
+    if (index === 0) {
+      actor.isBoss = true;
+      actor.phase = 0;
+      actor.cooldowns = {};
+      actor.summoned = 0;
+    } else {
+      actor.behavior = BEHAVIORS.GUARD;
+    }
+    return actor;
+  });
+}
+
+/**
+ * Moves a boss on to the phase its hit points call for
+ * @param {GameState} gameState - Current game state
+ * @param {Enemy} boss - Boss actor
+ * @param {BossDefinition} definition - Boss encounter (see BOSSES)
+ */
+function updatePhase(gameState: GameState, boss: Enemy, definition: BossDefinition): void {
+  const phases = definition.phases;
+  let phase = boss.phase;
+  while (phase + 1 < phases.length && boss.hp <= phases[phase + 1]!.below! * boss.maxHp) {
+    phase++;
+  }
+  if (phase === boss.phase) {
+    return;
+  }
+
+  const next = phases[phase]!;
+  boss.phase = phase;
+  boss.cooldowns = {};
+  pushEvent(gameState, {
+    type: 'bossPhase',
+    actorId: boss.id,
+    phase,
+    name: next.name,
+    x: boss.x,
+    y: boss.y,
+    gameTime: gameState.gameTime
+  });
+
+  if (next.effect) {
+    applyEffect(gameState, boss, next.effect.id, next.effect.turns);
+  }
+}
+
+/**
+ * Plays the boss-specific part of a boss turn: phase changes, cooldowns and
+ * special attacks
+ * @param {GameState} gameState - Current game state
+ * @param {Enemy} boss - Boss actor
+ * @param {Awareness} awareness - What the boss knows this turn
+ * @returns {boolean} True if the boss used a special (its turn is over)
+ */
+export function bossTurn(gameState: GameState, boss: Enemy, awareness: Awareness): boolean {
+  const definition = BOSSES[boss.kind]!;
+  updatePhase(gameState, boss, definition);
+
+  for (const id of Object.keys(boss.cooldowns)) {
+    if (boss.cooldowns[id]! > 0) {
+      boss.cooldowns[id]!--;
+    }
+  }
+
+  if (!awareness.seesPlayer) {
+    return false;
+  }
+
+  for (const special of definition.phases[boss.phase]!.specials) {
+    if ((boss.cooldowns[special.id] ?? 0) > 0) {
+      continue;
+    }
+    if (SPECIALS[special.id]!(gameState, boss, special, definition)) {
+      boss.cooldowns[special.id] = special.cooldown;
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Walks a guard back towards its post once it has strayed too far
+ * @param {GameState} gameState - Current game state
+ * @param {Enemy} actor - Guard or boss
+ * @returns {Object|null} The successful moveActor result, if any
+ */
+export function returnToPost(gameState: GameState, actor: Enemy) {
+  if (!actor.post || distance(actor, actor.post) <= GUARD_RADIUS) {
+    return null;
+  }
+  return stepTowards(gameState, actor, actor.post);
+}
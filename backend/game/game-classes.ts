@@ -0,0 +1,210 @@
+/**
+ * ============================================================================
+ * CHARACTER CLASSES
+ * ============================================================================
+ *
+ * The player picks a class when joining (joinRoom/startGame payload). The
+ * class sets the hero's base stats, starting kit and class ability, and is
+ * recorded in the app session data so the character that was paid for is
+ * the one that is played (and replayed).
+ *
+ * CLASS ABILITIES ('useAbility' message):
+ * - Warrior: cleave    - Attacks every adjacent enemy
+ * - Rogue:   backstab  - Attacks the adjacent enemy in a direction, always
+ *                        hits and always crits
+ * - Mage:    firebolt  - Hits the closest enemy in range, never misses. Can
+ *                        also be aimed at a tile with 'target' (see
+ *                        game-ranged.ts)
+ *
+ * After use, an ability needs `cooldown` more turns before it is ready again.
+ * ============================================================================
+ */
+
+import {
+  CHARACTER_CLASSES,
+  DEFAULT_CHARACTER_CLASS,
+  MOVE_VECTORS
+} from './game-constants.ts';
+import { attackActor, canAttack } from './game-combat.ts';
+import { createItem, closestEnemy } from './game-items.ts';
+import { equipItem } from './game-equipment.ts';
+import type { ActionResult, Actor, GameState, Player } from './game-constants.ts';
+
+/**
+ * Class ability: what 'useAbility' (and an aimed 'target') does
+ */
+export interface ClassAbility {
+  id: string;          // 'cleave', 'backstab' or 'firebolt'
+  name: string;        // Display name
+  cooldown: number;    // Turns before it is ready again
+  damage?: string;     // Damage dice, if it replaces the player's
+  range?: number;      // Reach, if it can be aimed
+  projectile?: string; // Projectile drawn by clients when aimed
+}
+
+/**
+ * Character class definition
+ */
+export interface CharacterClass {
+  name: string;
+  hp: number;
+  damage: string;
+  defense: number;
+  toHit: number;
+  critChance: number;
+  kit: string[];         // Starting items (see ITEMS), wearables equipped
+  ability: ClassAbility;
+}
+
+// Maximum distance (Chebyshev) at which a firebolt finds a target
+const FIREBOLT_RANGE = 6;
+
+/**
+ * Class catalog, keyed by class ID
+ */
+export const CLASSES: Record<string, CharacterClass> = {
+  [CHARACTER_CLASSES.WARRIOR]: {
+    name: 'Warrior',
+    hp: 35,
+    damage: 'd8+2',
+    defense: 1,
+    toHit: 0,
+    critChance: 0.05,
+    kit: ['short_sword', 'leather_armor', 'potion_healing'],
+    ability: { id: 'cleave', name: 'Cleave', cooldown: 6 }
+  },
+  [CHARACTER_CLASSES.ROGUE]: {
+    name: 'Rogue',
+    hp: 26,
+    damage: 'd6+2',
+    defense: 0,
+    toHit: 2,
+    critChance: 0.15,
+    kit: ['dagger', 'potion_healing', 'scroll_teleport'],
+    ability: { id: 'backstab', name: 'Backstab', cooldown: 5 }
+  },
+  [CHARACTER_CLASSES.MAGE]: {
+    name: 'Mage',
+    hp: 22,
+    damage: 'd4+1',
+    defense: 0,
+    toHit: 1,
+    critChance: 0.05,
+    kit: ['scroll_lightning', 'scroll_lightning', 'potion_healing'],
+    ability: { id: 'firebolt', name: 'Firebolt', cooldown: 3, damage: '2d6+2', range: FIREBOLT_RANGE, projectile: 'fire' }
+  }
+};
+
+/**
+ * Gives a player actor the stats, kit and ability of a class.
+ * Wearable kit items start equipped.
+ * @param {Actor} player - Freshly created player actor
+ * @param {string} [classId] - Class ID (defaults to DEFAULT_CHARACTER_CLASS)
+ * @returns {Actor} The same player actor
+ */
+export function applyCharacterClass(player: Player, classId: string = DEFAULT_CHARACTER_CLASS): Player {
+  const characterClass = CLASSES[classId];
+  if (!characterClass) {
+    throw new Error(`Unknown character class: ${classId}`);
+  }
+
+  player.characterClass = classId;
+  player.hp = characterClass.hp;
+  player.maxHp = characterClass.hp;
+  player.damage = characterClass.damage;
+  player.defense = characterClass.defense;
+  player.toHit = characterClass.toHit;
+  player.critChance = characterClass.critChance;
+  player.ability = characterClass.ability.id;
+  player.abilityCooldown = 0;
+
+  characterClass.kit.forEach((kind, index) => {
+    const item = createItem(kind, `kit_${index + 1}`);
+    player.inventory.push(item);
+    equipItem(player, item);
+  });
+
+  return player;
+}
+
+/**
+ * Counts down the class ability cooldown by one turn
+ * @param {Actor} player - Player actor
+ */
+export function tickAbilityCooldown(player: Player) {
+  if (player.abilityCooldown > 0) {
+    player.abilityCooldown--;
+  }
+}
+
+/**
+ * Lists the hostile actors next to the player
+ * @param {GameState} gameState - Current game state
+ * @returns {Array<Actor>} Adjacent enemies (diagonals included), in MOVE_VECTORS order
+ */
+function adjacentEnemies(gameState: GameState): Actor[] {
+  const player = gameState.player;
+  return MOVE_VECTORS
+    .map(d => gameState.actorMap[(player.x + d.x) + '_' + (player.y + d.y)])
+    .filter((actor): actor is Actor => !!actor && canAttack(player, actor));
+}
+
+/**
+ * Uses the player's class ability
+ * @param {GameState} gameState - Current game state
+ * @param {string} [direction] - Target direction (backstab only)
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function useAbility(gameState: GameState, direction?: string): ActionResult {
+  const player = gameState.player;
+  const characterClass = CLASSES[player.characterClass]!;
+  const ability = characterClass.ability;
+
+  if (player.abilityCooldown > 0) {
+    return { success: false, error: `${ability.name} is not ready` };
+  }
+
+  let targets;
+  switch (ability.id) {
+    case 'cleave':
+      targets = adjacentEnemies(gameState);
+      break;
+
+    case 'backstab': {
+      const vector = MOVE_VECTORS.find(d => d.direction === direction);
+      if (!vector) {
+        return { success: false, error: 'Direction is required' };
+      }
+      const target = gameState.actorMap[(player.x + vector.x) + '_' + (player.y + vector.y)];
+      targets = target && canAttack(player, target) ? [target] : [];
+      break;
+    }
+
+    case 'firebolt': {
+      const target = closestEnemy(gameState, FIREBOLT_RANGE);
+      targets = target ? [target] : [];
+      break;
+    }
+
+    default:
+      return { success: false, error: 'Unknown ability' };
+  }
+
+  if (targets.length === 0) {
+    return { success: false, error: 'No target' };
+  }
+
+  for (const target of targets) {
+    if (ability.id === 'backstab') {
+      attackActor(gameState, player, target, { forceCrit: true });
+    } else if (ability.id === 'firebolt') {
+      attackActor(gameState, player, target, { dice: ability.damage });
+    } else {
+      attackActor(gameState, player, target);
+    }
+  }
+
+  player.abilityCooldown = ability.cooldown;
+
+  return { success: true, gameState };
+}
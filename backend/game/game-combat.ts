@@ -0,0 +1,193 @@
+/**
+ * ============================================================================
+ * COMBAT
+ * ============================================================================
+ *
+ * Server-side resolution of bump-to-attack combat.
+ *
+ * FLOW:
+ * 1. An actor moves into a tile occupied by a hostile actor
+ * 2. To hit: d20 + the attacker's toHit must reach HIT_DIFFICULTY
+ * 3. The attacker's damage dice (e.g. 'd8+2') are rolled, multiplied by
+ *    CRIT_MULTIPLIER on a critical hit (critChance)
+ * 4. The defender loses that many hit points, minus its defense
+ * 5. Defenders at 0 HP or below are removed from actorList/actorMap and
+ *    enemies roll their loot table (see game-items.ts) and grant the
+ *    player their XP (see game-progression.ts)
+ * 6. Survivors of a damaging hit may catch the attacker's onHit status
+ *    effect (see game-effects.ts)
+ *
+ * Attack dice, defense, toHit and critChance are derived stats: base actor
+ * stats plus equipment (see game-equipment.ts).
+ *
+ * Every hit, miss and death is pushed to gameState.events so the state broadcast
+ * tells the client exactly what the server computed.
+ * ============================================================================
+ */
+
+import { HIT_DIFFICULTY, CRIT_MULTIPLIER } from './game-constants.ts';
+import { random, randomIndex } from './game-rng.ts';
+import { getCombatStats } from './game-equipment.ts';
+import { gainXp } from './game-progression.ts';
+import { dropLoot } from './game-items.ts';
+import { applyEffect } from './game-effects.ts';
+import type { Actor, AttackEvent, GameEvent, GameState } from './game-constants.ts';
+
+/**
+ * Options of a single attack (see attackActor)
+ */
+export interface AttackOptions {
+  dice?: string | null; // Damage dice overriding the attacker's (e.g. a scroll's).
+                        // Such attacks always hit and never crit
+  weaponDice?: string;  // Damage dice replacing the attacker's weapon (e.g. a bow's);
+                        // the attack rolls as usual
+  forceCrit?: boolean;  // Always hit and always crit
+  ranged?: boolean;     // Attack made from a distance (recorded on the event)
+}
+
+/**
+ * Rolls a dice expression such as 'd8+2', '2d6' or 'd4-1'
+ * @param {GameState} gameState - Current game state (owns the RNG)
+ * @param {string} dice - Dice expression
+ * @returns {Object} Individual rolls, flat bonus and total
+ */
+export function rollDice(gameState: GameState, dice: string) {
+  const match = /^(\d*)d(\d+)([+-]\d+)?$/.exec(String(dice).trim());
+  if (!match) {
+    throw new Error(`Invalid dice expression: ${dice}`);
+  }
+
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const sides = parseInt(match[2]!, 10);
+  const bonus = match[3] ? parseInt(match[3], 10) : 0;
+
+  const rolls = [];
+  for (let i = 0; i < count; i++) {
+    rolls.push(1 + randomIndex(gameState, sides));
+  }
+
+  const total = rolls.reduce((sum, roll) => sum + roll, 0) + bonus;
+
+  return { rolls, bonus, total: Math.max(0, total) };
+}
+
+/**
+ * Checks whether two actors are hostile to each other.
+ * Enemies never hurt each other, they only fight the player.
+ * @param {Actor} attacker - Acting actor
+ * @param {Actor} defender - Target actor
+ * @returns {boolean} True if the attacker may attack the defender
+ */
+export function canAttack(attacker: Actor, defender: Actor): boolean {
+  return attacker.isPlayer || defender.isPlayer;
+}
+
+/**
+ * Removes an actor from the game state
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to remove
+ */
+export function removeActor(gameState: GameState, actor: Actor) {
+  const key = actor.x + '_' + actor.y;
+  if (gameState.actorMap[key] === actor) {
+    delete gameState.actorMap[key];
+  }
+
+  const index = gameState.actorList.indexOf(actor);
+  if (index !== -1) {
+    gameState.actorList.splice(index, 1);
+  }
+}
+
+/**
+ * Resolves a single attack
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} attacker - Attacking actor
+ * @param {Actor} defender - Defending actor
+ * @param {AttackOptions} [options] - Attack options
+ * @returns {AttackEvent} The attack event that was recorded
+ */
+export function attackActor(gameState: GameState, attacker: Actor, defender: Actor, options: AttackOptions = {}): AttackEvent {
+  const dice = options.dice || null;
+  const attack = getCombatStats(attacker);
+  const defense = getCombatStats(defender).defense;
+
+  const hit = dice !== null || options.forceCrit ||
+    rollDice(gameState, 'd20').total + attack.toHit >= HIT_DIFFICULTY;
+  const crit = hit && dice === null && (options.forceCrit || random(gameState) < attack.critChance);
+
+  let roll: { rolls: number[]; total: number } = { rolls: [], total: 0 };
+  let damage = 0;
+  if (hit) {
+    roll = rollDice(gameState, dice || options.weaponDice || attack.damage);
+    const bonus = dice === null ? attack.damageBonus : 0;
+    damage = Math.max(0, (roll.total + bonus) * (crit ? CRIT_MULTIPLIER : 1) - defense);
+  }
+  defender.hp -= damage;
+
+  const killed = defender.hp <= 0;
+
+  const event: AttackEvent = {
+    type: 'attack',
+    attackerId: attacker.id,
+    targetId: defender.id,
+    hit,
+    crit,
+    ranged: !!options.ranged,
+    damage,
+    rolls: roll.rolls,
+    targetHp: defender.hp,
+    killed,
+    x: defender.x,
+    y: defender.y,
+    gameTime: gameState.gameTime
+  };
+  pushEvent(gameState, event);
+
+  if (killed) {
+    killActor(gameState, defender, attacker);
+  } else if (damage > 0 && !attacker.isPlayer && attacker.onHit && random(gameState) < attacker.onHit.chance) {
+    applyEffect(gameState, defender, attacker.onHit.effect, attacker.onHit.turns);
+  }
+
+  return event;
+}
+
+/**
+ * Removes a dead actor: records its death, drops its loot and rewards the
+ * player if they killed it
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor that died
+ * @param {Actor|null} killer - Actor that killed it (null for traps and hazards)
+ */
+export function killActor(gameState: GameState, actor: Actor, killer: Actor | null) {
+  removeActor(gameState, actor);
+  pushEvent(gameState, {
+    type: 'death',
+    actorId: actor.id,
+    killerId: killer ? killer.id : null,
+    x: actor.x,
+    y: actor.y,
+    gameTime: gameState.gameTime
+  });
+
+  if (!actor.isPlayer) {
+    dropLoot(gameState, actor);
+  }
+
+  if (killer && killer.isPlayer && actor.xp) {
+    gainXp(gameState, killer, actor.xp);
+  }
+}
+
+/**
+ * Appends an event to the current turn's event list
+ * @param {GameState} gameState - Current game state
+ * @param {Object} event - Event to record
+ */
+export function pushEvent(gameState: GameState, event: GameEvent) {
+  if (!gameState.events) {
+    gameState.events = [];
+  }
+  gameState.events.push(event);
+}
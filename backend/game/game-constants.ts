@@ -7,50 +7,402 @@
  * ============================================================================
  */
 
+import type { RNG } from 'rot-js';
+
 // Grid dimensions
 export const GRID_WIDTH = 50;
 export const GRID_HEIGHT = 50;
 
 export const ROWS = GRID_HEIGHT;
 export const COLS = GRID_WIDTH;
-export const ACTORS = 25;
+
+// Dungeon layout
+export const DUNGEON_DEPTH = 5;     // Number of floors in a run
+export const ENEMIES_BASE = 12;     // Enemies on the first floor
+export const ENEMIES_PER_DEPTH = 3; // Extra enemies on each deeper floor
+export const ITEMS_BASE = 4;        // Items lying on every floor
+export const ITEMS_PER_DEPTH = 1;   // Extra items on each deeper floor
+export const TRAPS_BASE = 2;        // Traps on every floor
+export const TRAPS_PER_DEPTH = 1;   // Extra traps on each deeper floor
+
+// Inventory
+export const INVENTORY_CAPACITY = 10;
+
+// Item categories (see game-items.ts for the catalog)
+export const ITEM_TYPES = {
+  POTION: 'potion',
+  WEAPON: 'weapon',
+  ARMOR: 'armor',
+  RING: 'ring',
+  SCROLL: 'scroll',
+  KEY: 'key',
+  WAND: 'wand'
+};
+
+// Player equipment slots (see game-equipment.ts)
+export const EQUIPMENT_SLOTS = {
+  WEAPON: 'weapon',
+  ARMOR: 'armor',
+  RING: 'ring'
+};
+
+// Character classes (see game-classes.ts)
+export const CHARACTER_CLASSES = {
+  WARRIOR: 'warrior',
+  ROGUE: 'rogue',
+  MAGE: 'mage'
+};
+export const DEFAULT_CHARACTER_CLASS = CHARACTER_CLASSES.WARRIOR;
+
+// Combat
+export const HIT_DIFFICULTY = 5;  // d20 + toHit must reach this to land a blow
+export const CRIT_MULTIPLIER = 2; // Damage multiplier on a critical hit
+
+// Experience (see game-progression.ts)
+export const LEVEL_THRESHOLDS = [0, 20, 50, 100, 170, 260, 370, 500, 650, 820]; // Total XP for level n + 1
+export const LEVEL_HP_BONUS = 5;     // Max HP gained per level
+export const LEVEL_DAMAGE_BONUS = 1; // Flat damage gained per level
 
 // Directions
 export const DIRECTIONS = {
   UP: 'UP',
   DOWN: 'DOWN',
   LEFT: 'LEFT',
-  RIGHT: 'RIGHT'
+  RIGHT: 'RIGHT',
+  UP_LEFT: 'UP_LEFT',
+  UP_RIGHT: 'UP_RIGHT',
+  DOWN_LEFT: 'DOWN_LEFT',
+  DOWN_RIGHT: 'DOWN_RIGHT'
+};
+
+// Player actions (message types that play a turn)
+export const ACTIONS = {
+  MOVE: 'move',
+  DESCEND: 'descend',
+  PICKUP: 'pickup',
+  USE_ITEM: 'useItem',
+  DROP: 'drop',
+  CHOOSE_PERK: 'choosePerk',
+  USE_ABILITY: 'useAbility',
+  CLOSE_DOOR: 'closeDoor',
+  SEARCH: 'search',
+  TARGET: 'target',
+  WAIT: 'wait',
+  REST: 'rest'
+};
+
+// Turn system (see game-turns.ts)
+export const ACTION_ENERGY = 100; // Energy an actor needs before it can act
+export const NORMAL_SPEED = 100;  // Energy gained per turn by a normal-speed actor
+
+// Energy spent by each player action (bump attacks cost a move)
+export const ACTION_COSTS = {
+  [ACTIONS.MOVE]: 100,
+  [ACTIONS.DESCEND]: 100,
+  [ACTIONS.PICKUP]: 50,
+  [ACTIONS.USE_ITEM]: 100,
+  [ACTIONS.DROP]: 50,
+  [ACTIONS.CHOOSE_PERK]: 0,
+  [ACTIONS.USE_ABILITY]: 100,
+  [ACTIONS.CLOSE_DOOR]: 100,
+  [ACTIONS.SEARCH]: 100,
+  [ACTIONS.TARGET]: 100,
+  [ACTIONS.WAIT]: 100,
+  [ACTIONS.REST]: 100 // Per turn rested
 };
 
+// Unit vectors for the four cardinal directions (also floor connectivity)
+export const DIRECTION_VECTORS = [
+  { direction: DIRECTIONS.LEFT, x: -1, y: 0 },
+  { direction: DIRECTIONS.RIGHT, x: 1, y: 0 },
+  { direction: DIRECTIONS.UP, x: 0, y: -1 },
+  { direction: DIRECTIONS.DOWN, x: 0, y: 1 }
+];
+
+// Unit vectors for the diagonal directions
+export const DIAGONAL_VECTORS = [
+  { direction: DIRECTIONS.UP_LEFT, x: -1, y: -1 },
+  { direction: DIRECTIONS.UP_RIGHT, x: 1, y: -1 },
+  { direction: DIRECTIONS.DOWN_LEFT, x: -1, y: 1 },
+  { direction: DIRECTIONS.DOWN_RIGHT, x: 1, y: 1 }
+];
+
+// Every step an actor can take (see moveActor for the diagonal rules)
+export const MOVE_VECTORS = [...DIRECTION_VECTORS, ...DIAGONAL_VECTORS];
+
+// End conditions recorded in the game over message and session data
+export const END_CONDITIONS = {
+  PLAYER_DIED: 'player_died',
+  ENEMIES_CLEARED: 'enemies_cleared', // Last floor cleared
+  EXIT_REACHED: 'exit_reached',
+  BOSS_DEFEATED: 'boss_defeated'       // Exit reached after killing the last floor's boss
+};
+
+// Dungeon types, each with its own floor layouts (see game-mapgen.ts)
+export const DUNGEON_TYPES = {
+  CLASSIC: 'classic',     // Rogue-style room grids
+  CATACOMBS: 'catacombs', // Dug rooms and corridors, prefab rooms at the bottom
+  CAVERNS: 'caverns',     // Cellular caves
+  MIXED: 'mixed'          // A different layout on every floor
+};
+
+export const DEFAULT_DUNGEON_TYPE = DUNGEON_TYPES.CLASSIC;
+
+// Tile features kept in gameState.features (see game-features.ts)
+export const FEATURE_TYPES = {
+  DOOR: 'door',               // Opens when walked into, can be closed again
+  LOCKED_DOOR: 'locked_door', // Opens with the key of the same lockId
+  SECRET_WALL: 'secret_wall', // Looks like wall until the player pushes on it
+  TRAP: 'trap',               // Fires when stepped on (see game-traps.ts)
+  LAVA: 'lava',               // Burns whoever steps in
+  WATER: 'water'              // Slows whoever wades through
+};
+
+// Field of view (see game-fov.ts)
+export const PLAYER_SIGHT = 10; // Player sight radius, same as the client's light radius
+
+// Enemy AI
+export const CHASE_DISTANCE = 6;     // Default sight radius for enemies without one
+export const ENEMY_MEMORY_TURNS = 8; // Turns an enemy keeps hunting a player it lost sight of
+
+// Enemy behaviors (see game-behaviors.ts)
+export const BEHAVIORS = {
+  CHASER: 'chaser', // Walks up to the player and attacks in melee
+  CASTER: 'caster', // Casts its spell from range, closes in otherwise
+  THIEF: 'thief',   // Steals an item on a hit, then flees
+  TURRET: 'turret', // Never moves, shoots the player in range
+  GUARD: 'guard',   // Chases the player, otherwise returns to its post
+  BOSS: 'boss'      // Guard with phases and special attacks (see game-bosses.ts)
+};
+
+// Status effects (see game-effects.ts)
+export const STATUS_EFFECTS = {
+  POISON: 'poison', // Damage every turn, stacks up
+  STUN: 'stun',     // No energy gained, lowered defense
+  REGEN: 'regen',   // Healing every turn
+  HASTE: 'haste'    // Faster and more accurate
+};
+
+/**
+ * Tile position
+ */
+export interface Position {
+  x: number; // X coordinate
+  y: number; // Y coordinate
+}
+
+/**
+ * One step in a direction (see DIRECTION_VECTORS and MOVE_VECTORS)
+ */
+export interface DirectionVector extends Position {
+  direction: string; // One of DIRECTIONS
+}
+
+/**
+ * Status effect on an actor (see game-effects.ts)
+ */
+export interface StatusEffect {
+  id: string;     // One of STATUS_EFFECTS
+  turns: number;  // Turns left
+  stacks: number; // Intensity (stacking effects only, 1 otherwise)
+}
+
+/**
+ * Status effect an enemy's hits may inflict
+ */
+export interface OnHitEffect {
+  effect: string; // One of STATUS_EFFECTS
+  turns: number;  // Duration in turns
+  chance: number; // Chance (0-1) per damaging hit
+}
+
+/**
+ * Fields every actor has
+ */
+interface ActorBase extends Position {
+  id: string;                    // Unique actor ID ('player' for the main player)
+  hp: number;                    // Hit points
+  maxHp: number;                 // Hit point cap for healing
+  isPlayer: boolean;             // Whether the actor is a player
+  damage: string;                // Damage dice (e.g., 'd8+2')
+  damageBonus: number;           // Flat damage added to every hit
+  defense: number;               // Damage subtracted from every hit taken
+  toHit: number;                 // Bonus to the d20 attack roll
+  critChance?: number;           // Chance (0-1) that a hit deals CRIT_MULTIPLIER damage
+  speed: number;                 // Energy gained per turn (NORMAL_SPEED is 100)
+  energy: number;                // Energy banked towards the next action (see game-turns.ts)
+  xp: number;                    // Total experience (player) or experience granted on death (enemies)
+  inventory: Item[];             // Carried items (stolen items for thieves)
+  effects: StatusEffect[];       // Active status effects
+}
+
+/**
+ * The player's hero
+ */
+export interface Player extends ActorBase {
+  isPlayer: true;
+  eoa: string;                              // Player's Ethereum address
+  critChance: number;
+  equipment: Record<string, string | null>; // Equipped item ID per slot (see EQUIPMENT_SLOTS)
+  level: number;                            // Character level
+  pendingPerks: number;                     // Perks earned but not chosen yet
+  perks: string[];                          // Perks taken
+  characterClass: string;                   // Class ID (see CHARACTER_CLASSES)
+  ability: string;                          // Class ability ID
+  abilityCooldown: number;                  // Turns until the class ability is ready
+}
+
+/**
+ * A monster (see game-bestiary.ts)
+ */
+export interface Enemy extends ActorBase {
+  isPlayer: false;
+  kind: string;                // Bestiary key
+  name: string;                // Display name
+  sight: number;               // Sight radius
+  behavior: string;            // One of BEHAVIORS
+  range: number;               // Ranged attack reach (casters and turrets)
+  spell: string | null;        // Ranged attack dice (casters and turrets)
+  loot: string | null;         // Loot table rolled on death
+  onHit: OnHitEffect | null;   // Status effect its hits may inflict
+  lastSeen: Position | null;   // Where the enemy last saw the player
+  alertTurns: number;          // Turns left before the enemy forgets lastSeen
+  post: Position | null;       // Where a guard heads back to (see game-bosses.ts)
+  isBoss: boolean;             // Whether this is the last floor's boss
+  phase: number;               // Boss phase (index into BOSSES[kind].phases)
+  cooldowns: Record<string, number>; // Boss turns left before each special is ready
+  summoned: number;            // Minions a boss has summoned so far
+  summonerId: string | null;   // ID of the boss that summoned this minion
+}
+
+/**
+ * Any actor; `isPlayer` tells the two apart
+ */
+export type Actor = Player | Enemy;
+
+/**
+ * Derived combat values (see getCombatStats in game-equipment.ts)
+ */
+export interface CombatStats {
+  damage: string;      // Attack dice
+  defense: number;     // Damage subtracted from every hit taken
+  toHit: number;       // Bonus to the d20 attack roll
+  critChance: number;  // Chance (0-1) of a critical hit
+  damageBonus: number; // Flat damage added to every hit
+}
+
+/**
+ * An item, on the floor or carried
+ */
+export interface Item {
+  id: string;       // Unique item ID
+  kind: string;     // Catalog key (see ITEMS in game-items.ts)
+  name: string;     // Display name
+  type: string;     // One of ITEM_TYPES
+  x?: number;       // X coordinate while lying on the floor
+  y?: number;       // Y coordinate while lying on the floor
+  lockId?: string;  // Lock the item opens (keys only)
+  charges?: number; // Shots left (wands only)
+}
+
+/**
+ * A tile feature (see game-features.ts and game-traps.ts)
+ */
+export interface Feature {
+  type: string;     // One of FEATURE_TYPES
+  open?: boolean;   // Whether a door is open
+  lockId?: string;  // Lock of a locked door (see Item.lockId)
+  trap?: string;    // Trap kind (see TRAPS in game-traps.ts)
+  hidden?: boolean; // Whether a trap is still hidden from the player
+}
+
+/**
+ * Room rectangle of a floor layout
+ */
+export interface RoomRect extends Position {
+  width: number;  // Width in tiles
+  height: number; // Height in tiles
+}
+
+/**
+ * A floor layout (see game-mapgen.ts)
+ */
+export interface FloorMap {
+  width: number;     // Width in tiles (COLS)
+  height: number;    // Height in tiles (ROWS)
+  map: number[][];   // Grid, map[x][y] === 0 is floor, 1 is wall
+  rooms: RoomRect[]; // Room rectangles, empty for caves
+  generator: string; // Generator ID (see getFloorGenerator)
+}
+
+/**
+ * Something that happened during an action, sent to the clients
+ */
+export interface GameEvent {
+  type: string;      // Event type ('attack', 'death', 'loot', 'pickup', ...)
+  x?: number;        // X coordinate where the event happened
+  y?: number;        // Y coordinate where the event happened
+  gameTime: number;  // Game time of the event
+  [field: string]: unknown;
+}
+
+/**
+ * A resolved attack (see attackActor in game-combat.ts)
+ */
+export interface AttackEvent extends GameEvent {
+  type: 'attack';
+  attackerId: string; // ID of the attacking actor
+  targetId: string;   // ID of the attacked actor
+  hit: boolean;       // Whether the attack landed
+  crit: boolean;      // Whether it was a critical hit
+  ranged: boolean;    // Whether it was made from a distance
+  damage: number;     // Damage dealt
+  rolls: number[];    // Damage dice rolled
+  targetHp: number;   // Target's hit points afterwards
+  killed: boolean;    // Whether the target died
+}
+
 /**
- * @typedef {Object} Position
- * @property {number} x - X coordinate
- * @property {number} y - Y coordinate
+ * Anything that owns a ROT.js RNG instance: a game, or a floor being generated
  */
+export interface RngHolder {
+  rng: typeof RNG;        // Per-game ROT.js RNG instance (not serialized)
+  randomState?: number[]; // RNG state after the latest roll
+}
 
 /**
- * @typedef {Object} Actor
- * @property {number} x - X coordinate
- * @property {number} y - Y coordinate
- * @property {number} hp - Hit points
- * @property {boolean} isPlayer - Whether the actor is a player
- * @property {string} damage - Damage dice (e.g., 'd8+2')
- * @property {string} [id] - Optional ID for the actor
- * @property {string} [eoa] - Optional EOA for player actors
+ * Outcome of a player action
  */
+export type ActionResult =
+  | { success: true; gameState: GameState; attack?: AttackEvent }
+  | { success: false; error: string };
 
 /**
- * @typedef {Object} GameState
- * @property {Object} map - The game map (ROT.js map or similar structure)
- * @property {Array<Actor>} actorList - List of all actors
- * @property {Object.<string, Actor>} actorMap - Map of actors by position "x_y"
- * @property {Actor} player - The main player actor (host)
- * @property {string|null} winner - The winner ('player1', 'player2', or null)
- * @property {boolean} isGameOver - Whether the game is over
- * @property {Object} players - Object with player information
- * @property {string} players.host - EOA address of host (player 1)
- * @property {string} players.guest - EOA address of guest (player 2)
- * @property {number} gameTime - Game time in ticks/turns
- * @property {number} randomSeed - Seed used for RNG
+ * State of a dungeon run
  */
+export interface GameState extends RngHolder {
+  map: FloorMap;                       // The current floor
+  actorList: Actor[];                  // List of all actors
+  actorMap: Record<string, Actor>;     // Map of actors by position "x_y"
+  player: Player;                      // The main player actor (host)
+  characterClass: string;              // Class the player picked (see CHARACTER_CLASSES)
+  dungeonType: string;                 // Layout family of the run (see DUNGEON_TYPES)
+  winner: string | null;               // The winner ('player1' or null)
+  isGameOver: boolean;                 // Whether the game is over
+  endCondition: string | null;         // Why the game ended (see END_CONDITIONS)
+  depth: number;                       // Current floor (1 .. DUNGEON_DEPTH)
+  maxDepth: number;                    // Number of floors (DUNGEON_DEPTH)
+  stairs: Position | null;             // Stairs down (null on the last floor)
+  exit: Position | null;               // Dungeon exit (last floor only, sealed while the boss lives)
+  bossId: string | null;               // ID of the floor's boss (last floor only)
+  items: Item[];                       // Items lying on the current floor
+  features: Record<string, Feature>;   // Tile features of the current floor by position "x_y"
+  explored: Record<string, boolean>;   // Tiles ("x_y") the player has seen on this floor
+  players: { host: string; guest?: string }; // EOA addresses of host (player 1) and guest (player 2)
+  playereoa: string;                   // Host's EOA address
+  gameTime: number;                    // Game time in turns (see game-turns.ts)
+  randomSeed: number;                  // Seed used for RNG
+  seedCommitment: string | null;       // Commitment the seed was derived from (see game-seed.ts)
+  randomState: number[];              // RNG state after the latest roll
+  events?: GameEvent[];                // Events produced by the last action
+}
@@ -0,0 +1,193 @@
+/**
+ * ============================================================================
+ * STATUS EFFECTS
+ * ============================================================================
+ *
+ * Temporary conditions on actors, kept in actor.effects and sent to clients
+ * with the actors themselves.
+ *
+ * DEFINITION FIELDS (EFFECTS):
+ * - damage    - Dice rolled every turn, once per stack (damage over time)
+ * - heal      - Dice rolled every turn, capped at maxHp
+ * - stunned   - The actor gains no energy, so it loses its turns
+ * - modifiers - Added to speed (see game-turns.ts) and to toHit, defense
+ *               and damageBonus (see getCombatStats in game-equipment.ts)
+ * - stacking  - What applying an effect the actor already has does:
+ *               'refresh'   - Duration becomes the longer of the two
+ *               'extend'    - Durations add up, to at most maxTurns
+ *               'intensity' - One more stack, to at most maxStacks, and
+ *                             the duration is refreshed
+ *
+ * SOURCES:
+ * Potions (see game-items.ts), poison gas traps (see game-traps.ts) and
+ * enemy hits (Actor.onHit, see game-bestiary.ts).
+ *
+ * TICKS:
+ * Every turn, after gaining energy, each actor's effects deal their damage
+ * or healing and count down by one turn; expired effects are removed. An
+ * effect lasting N turns therefore affects N turns.
+ * ============================================================================
+ */
+
+import { STATUS_EFFECTS } from './game-constants.ts';
+import { rollDice, killActor, pushEvent } from './game-combat.ts';
+import type { Actor, GameState, StatusEffect } from './game-constants.ts';
+
+/**
+ * Stat modifiers of an effect (see getEffectModifiers)
+ */
+export interface EffectModifiers {
+  speed: number;
+  toHit: number;
+  defense: number;
+  damageBonus: number;
+}
+
+/**
+ * Status effect definition (see DEFINITION FIELDS above)
+ */
+export interface EffectDefinition {
+  name: string;
+  damage?: string;
+  heal?: string;
+  stunned?: boolean;
+  modifiers?: Partial<EffectModifiers>;
+  stacking: 'refresh' | 'extend' | 'intensity';
+  maxTurns?: number;
+  maxStacks?: number;
+}
+
+/**
+ * Status effect catalog, keyed by STATUS_EFFECTS id
+ */
+export const EFFECTS: Record<string, EffectDefinition> = {
+  [STATUS_EFFECTS.POISON]: { name: 'Poisoned', damage: 'd2', stacking: 'intensity', maxStacks: 3 },
+  [STATUS_EFFECTS.STUN]: { name: 'Stunned', stunned: true, modifiers: { defense: -2 }, stacking: 'refresh' },
+  [STATUS_EFFECTS.REGEN]: { name: 'Regenerating', heal: 'd2', stacking: 'refresh' },
+  [STATUS_EFFECTS.HASTE]: { name: 'Hasted', modifiers: { speed: 50, toHit: 1 }, stacking: 'extend', maxTurns: 20 }
+};
+
+/**
+ * Finds an active effect on an actor
+ * @param {Actor} actor - Actor to check
+ * @param {string} id - One of STATUS_EFFECTS
+ * @returns {StatusEffect|undefined} The effect, if active
+ */
+export function getEffect(actor: Actor, id: string): StatusEffect | undefined {
+  return (actor.effects || []).find(effect => effect.id === id);
+}
+
+/**
+ * Checks whether an actor is stunned
+ * @param {Actor} actor - Actor to check
+ * @returns {boolean} True if any active effect stuns it
+ */
+export function isStunned(actor: Actor): boolean {
+  return (actor.effects || []).some(effect => EFFECTS[effect.id]?.stunned);
+}
+
+/**
+ * Adds up the stat modifiers of an actor's effects
+ * @param {Actor} actor - Actor
+ * @returns {Object} { speed, toHit, defense, damageBonus }
+ */
+export function getEffectModifiers(actor: Actor): EffectModifiers {
+  const modifiers: EffectModifiers = { speed: 0, toHit: 0, defense: 0, damageBonus: 0 };
+  for (const effect of actor.effects || []) {
+    const definition = EFFECTS[effect.id]!;
+    for (const [stat, value] of Object.entries(definition.modifiers || {})) {
+      modifiers[stat as keyof EffectModifiers] += value;
+    }
+  }
+  return modifiers;
+}
+
+/**
+ * Applies a status effect to an actor, following the effect's stacking rule
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Affected actor
+ * @param {string} id - One of STATUS_EFFECTS
+ * @param {number} turns - Duration in turns
+ * @returns {StatusEffect} The effect as it now stands
+ */
+export function applyEffect(gameState: GameState, actor: Actor, id: string, turns: number): StatusEffect {
+  const definition = EFFECTS[id];
+  if (!definition) {
+    throw new Error(`Unknown status effect: ${id}`);
+  }
+
+  if (!actor.effects) {
+    actor.effects = [];
+  }
+
+  let effect = getEffect(actor, id);
+  if (!effect) {
+    effect = { id, turns, stacks: 1 };
+    actor.effects.push(effect);
+  } else if (definition.stacking === 'extend') {
+    effect.turns = Math.min(effect.turns + turns, definition.maxTurns || effect.turns + turns);
+  } else if (definition.stacking === 'intensity') {
+    effect.stacks = Math.min(effect.stacks + 1, definition.maxStacks || 1);
+    effect.turns = Math.max(effect.turns, turns);
+  } else {
+    effect.turns = Math.max(effect.turns, turns);
+  }
+
+  pushEvent(gameState, {
+    type: 'effect',
+    effect: id,
+    actorId: actor.id,
+    turns: effect.turns,
+    stacks: effect.stacks,
+    x: actor.x,
+    y: actor.y,
+    gameTime: gameState.gameTime
+  });
+
+  return effect;
+}
+
+/**
+ * Plays one turn of an actor's effects: damage, healing and countdown
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Affected actor
+ */
+export function tickEffects(gameState: GameState, actor: Actor) {
+  if (!actor.effects || actor.effects.length === 0) {
+    return;
+  }
+
+  const event = { actorId: actor.id, x: actor.x, y: actor.y, gameTime: gameState.gameTime };
+
+  for (const effect of [...actor.effects]) {
+    const definition = EFFECTS[effect.id]!;
+
+    if (definition.damage) {
+      let damage = 0;
+      for (let i = 0; i < effect.stacks; i++) {
+        damage += rollDice(gameState, definition.damage).total;
+      }
+      actor.hp -= damage;
+      pushEvent(gameState, { type: 'effectTick', effect: effect.id, damage, hp: actor.hp, ...event });
+    }
+
+    if (definition.heal) {
+      const before = actor.hp;
+      actor.hp = Math.min(actor.maxHp ?? actor.hp, actor.hp + rollDice(gameState, definition.heal).total);
+      if (actor.hp > before) {
+        pushEvent(gameState, { type: 'effectTick', effect: effect.id, healed: actor.hp - before, hp: actor.hp, ...event });
+      }
+    }
+
+    if (actor.hp <= 0) {
+      killActor(gameState, actor, null);
+      return;
+    }
+
+    effect.turns--;
+    if (effect.turns <= 0) {
+      actor.effects.splice(actor.effects.indexOf(effect), 1);
+      pushEvent(gameState, { type: 'effectEnd', effect: effect.id, ...event });
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * EQUIPMENT & DERIVED COMBAT STATS
+ * ============================================================================
+ *
+ * The player has one equipment slot per wearable item type:
+ * - weapon - Replaces the attack dice, may add to-hit and crit chance
+ * - armor  - Adds defense, heavy armor may cost to-hit
+ * - ring   - Small bonus to any stat
+ *
+ * Slots hold the ID of an item in player.inventory. Base stats live on the
+ * actor itself (damage, defense, toHit, critChance); getCombatStats() folds
+ * the equipped items and status effect modifiers (see game-effects.ts) into
+ * the values the combat resolution uses. Enemies have no equipment, so their
+ * derived stats are their base stats plus their effects.
+ * ============================================================================
+ */
+
+import { EQUIPMENT_SLOTS, ITEM_TYPES } from './game-constants.ts';
+import { ITEMS } from './game-items.ts';
+import { getEffectModifiers } from './game-effects.ts';
+import type { Actor, CombatStats, Item, Player } from './game-constants.ts';
+
+// Slot each wearable item type goes into
+const SLOT_BY_TYPE: Record<string, string> = {
+  [ITEM_TYPES.WEAPON]: EQUIPMENT_SLOTS.WEAPON,
+  [ITEM_TYPES.ARMOR]: EQUIPMENT_SLOTS.ARMOR,
+  [ITEM_TYPES.RING]: EQUIPMENT_SLOTS.RING
+};
+
+/**
+ * Creates an empty loadout
+ * @returns {Object.<string, string|null>} Item ID per slot
+ */
+export function createEquipment(): Record<string, string | null> {
+  const equipment: Record<string, string | null> = {};
+  for (const slot of Object.values(EQUIPMENT_SLOTS)) {
+    equipment[slot] = null;
+  }
+  return equipment;
+}
+
+/**
+ * Returns the slot an item is worn in
+ * @param {Item} item - Item
+ * @returns {string|null} Slot name, or null if the item cannot be equipped
+ */
+export function getItemSlot(item: Item): string | null {
+  return SLOT_BY_TYPE[item.type] || null;
+}
+
+/**
+ * Finds the slot an item is currently equipped in
+ * @param {Actor} actor - Actor
+ * @param {string} itemId - Item ID
+ * @returns {string|null} Slot name, or null if not equipped
+ */
+export function findEquippedSlot(actor: Actor, itemId: string): string | null {
+  if (!actor.isPlayer) {
+    return null;
+  }
+  return Object.keys(actor.equipment).find(slot => actor.equipment[slot] === itemId) || null;
+}
+
+/**
+ * Equips a carried item, replacing whatever was in its slot
+ * @param {Actor} actor - Actor
+ * @param {Item} item - Carried item
+ * @returns {string|null} Slot the item went into
+ */
+export function equipItem(actor: Player, item: Item): string | null {
+  const slot = getItemSlot(item);
+  if (slot) {
+    actor.equipment[slot] = item.id;
+  }
+  return slot;
+}
+
+/**
+ * Takes an item off, if it is equipped
+ * @param {Actor} actor - Actor
+ * @param {string} itemId - Item ID
+ * @returns {string|null} Slot that was emptied
+ */
+export function unequipItem(actor: Player, itemId: string): string | null {
+  const slot = findEquippedSlot(actor, itemId);
+  if (slot) {
+    actor.equipment[slot] = null;
+  }
+  return slot;
+}
+
+/**
+ * Lists the equipped items, slot by slot
+ * @param {Actor} actor - Actor
+ * @returns {Object.<string, Item|null>} Item per slot
+ */
+export function getLoadout(actor: Actor): Record<string, Item | null> {
+  const loadout: Record<string, Item | null> = {};
+  for (const slot of Object.values(EQUIPMENT_SLOTS)) {
+    const itemId = actor.isPlayer ? actor.equipment[slot] : null;
+    loadout[slot] = (itemId && actor.inventory.find(item => item.id === itemId)) || null;
+  }
+  return loadout;
+}
+
+/**
+ * Combines an actor's base stats with its equipment and status effects
+ * @param {Actor} actor - Actor
+ * @returns {CombatStats} Derived combat values
+ */
+export function getCombatStats(actor: Actor): CombatStats {
+  const stats: CombatStats = {
+    damage: actor.damage,
+    defense: actor.defense || 0,
+    toHit: actor.toHit || 0,
+    critChance: actor.critChance || 0,
+    damageBonus: actor.damageBonus || 0
+  };
+
+  const loadout = getLoadout(actor);
+  for (const slot of Object.values(EQUIPMENT_SLOTS)) {
+    const item = loadout[slot];
+    if (!item) {
+      continue;
+    }
+
+    const definition = ITEMS[item.kind]!;
+    if (definition.damage) {
+      stats.damage = definition.damage;
+    }
+    stats.defense += definition.defense || 0;
+    stats.toHit += definition.toHit || 0;
+    stats.critChance += definition.critChance || 0;
+    stats.damageBonus += definition.damageBonus || 0;
+  }
+
+  const modifiers = getEffectModifiers(actor);
+  stats.defense += modifiers.defense;
+  stats.toHit += modifiers.toHit;
+  stats.damageBonus += modifiers.damageBonus;
+
+  return stats;
+}
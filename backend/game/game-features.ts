@@ -0,0 +1,314 @@
+/**
+ * ============================================================================
+ * TILE FEATURES
+ * ============================================================================
+ *
+ * Doors, locks and secret walls. Features live in gameState.features, keyed
+ * by "x_y" like actorMap, on top of the floor/wall grid in map.map. Traps
+ * and hazards share the layer (see game-traps.ts).
+ *
+ * FEATURES (see FEATURE_TYPES):
+ * - door        - Floor tile; closed doors block movement and sight. Walking
+ *                 into a closed door opens it (that is the whole move), the
+ *                 player can close an adjacent open door with 'closeDoor'
+ * - locked_door - Floor tile that blocks until the player walks into it
+ *                 carrying the key with the same lockId; the key is used up
+ *                 and the lock becomes an open door. Enemies can't pass it
+ * - secret_wall - Wall tile (map.map is 1) until the player pushes on it,
+ *                 then it becomes floor. Enemies treat it as wall
+ *
+ * VAULTS:
+ * Floors with rooms get one treasure vault: a room (never the start or
+ * stairs room, never on the way anywhere else) with one locked entrance;
+ * any other entrances are hidden behind secret walls. Its key lies
+ * somewhere the player can reach without it. Other room entrances get
+ * ordinary doors at random.
+ * ============================================================================
+ */
+
+import { FEATURE_TYPES, DIRECTION_VECTORS, MOVE_VECTORS } from './game-constants.ts';
+import { random, randomIndex } from './game-rng.ts';
+import { pushEvent } from './game-combat.ts';
+import type { ActionResult, Actor, Feature, FloorMap, GameState, Position, RngHolder, RoomRect } from './game-constants.ts';
+
+/**
+ * Treasure vault of a floor (see VAULTS above)
+ */
+export interface Vault {
+  lockId: string;    // Lock of its locked door (and key)
+  tiles: Position[]; // Floor tiles inside it
+}
+
+// Chance for an ordinary room entrance to get a (closed) door
+const DOOR_CHANCE = 0.6;
+
+/**
+ * Builds the features key of a tile
+ * @param {Position} tile - Tile position
+ * @returns {string} "x_y"
+ */
+function tileKey(tile: Position): string {
+  return tile.x + '_' + tile.y;
+}
+
+/**
+ * Gets the feature on a tile
+ * @param {GameState} gameState - Current game state
+ * @param {number} x - X coordinate
+ * @param {number} y - Y coordinate
+ * @returns {Feature|null} Feature, if any
+ */
+export function getFeature(gameState: GameState, x: number, y: number): Feature | null {
+  return (gameState.features && gameState.features[x + '_' + y]) || null;
+}
+
+/**
+ * Checks whether a feature stops actors (and light)
+ * @param {Feature} feature - Tile feature
+ * @returns {boolean} True for closed doors, locks and secret walls
+ */
+export function isBlocking(feature: Feature): boolean {
+  switch (feature.type) {
+    case FEATURE_TYPES.SECRET_WALL:
+      return true;
+    case FEATURE_TYPES.DOOR:
+    case FEATURE_TYPES.LOCKED_DOOR:
+      return !feature.open;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether a feature hurts whoever steps on it, as far as anyone knows
+ * @param {Feature} feature - Tile feature
+ * @returns {boolean} True for lava and traps that are no longer hidden
+ */
+export function isHazard(feature: Feature): boolean {
+  return feature.type === FEATURE_TYPES.LAVA || (feature.type === FEATURE_TYPES.TRAP && !feature.hidden);
+}
+
+/**
+ * Checks whether an enemy can path through a tile. Closed doors count as
+ * open (walking into them opens them) and water is only slow; locks,
+ * secret walls, lava and traps the player knows about are avoided.
+ * @param {GameState} gameState - Current game state
+ * @param {number} x - X coordinate
+ * @param {number} y - Y coordinate
+ * @returns {boolean} True if enemies can walk through the tile
+ */
+export function isPathable(gameState: GameState, x: number, y: number): boolean {
+  const map = gameState.map;
+  if (x < 0 || x >= map.width || y < 0 || y >= map.height || map.map[x]![y] !== 0) {
+    return false;
+  }
+  const feature = getFeature(gameState, x, y);
+  return !feature || feature.type === FEATURE_TYPES.DOOR || feature.type === FEATURE_TYPES.WATER
+    || (feature.type === FEATURE_TYPES.TRAP && !!feature.hidden);
+}
+
+/**
+ * Resolves an actor walking into a blocking feature
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Moving actor
+ * @param {number} x - Feature X coordinate
+ * @param {number} y - Feature Y coordinate
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function bumpFeature(gameState: GameState, actor: Actor, x: number, y: number): ActionResult {
+  const feature = getFeature(gameState, x, y)!;
+  const event = { actorId: actor.id, x, y, gameTime: gameState.gameTime };
+
+  switch (feature.type) {
+    case FEATURE_TYPES.DOOR:
+      feature.open = true;
+      pushEvent(gameState, { type: 'doorOpen', ...event });
+      return { success: true, gameState };
+
+    case FEATURE_TYPES.LOCKED_DOOR: {
+      const key = actor.isPlayer && actor.inventory.find(item => item.lockId === feature.lockId);
+      if (!key) {
+        return { success: false, error: 'The door is locked' };
+      }
+      actor.inventory.splice(actor.inventory.indexOf(key), 1);
+      gameState.features[x + '_' + y] = { type: FEATURE_TYPES.DOOR, open: true };
+      pushEvent(gameState, { type: 'doorUnlock', itemId: key.id, ...event });
+      return { success: true, gameState };
+    }
+
+    case FEATURE_TYPES.SECRET_WALL:
+      if (!actor.isPlayer) {
+        return { success: false, error: 'Blocked by wall' };
+      }
+      gameState.map.map[x]![y] = 0;
+      delete gameState.features[x + '_' + y];
+      pushEvent(gameState, { type: 'secretFound', ...event });
+      return { success: true, gameState };
+
+    default:
+      return { success: false, error: 'Blocked' };
+  }
+}
+
+/**
+ * Closes the open door next to the player
+ * @param {GameState} gameState - Current game state
+ * @param {string} direction - Direction of the door
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function closeDoor(gameState: GameState, direction: string | undefined): ActionResult {
+  const player = gameState.player;
+
+  const vector = MOVE_VECTORS.find(d => d.direction === direction);
+  if (!vector) {
+    return { success: false, error: 'Direction is required' };
+  }
+
+  const x = player.x + vector.x;
+  const y = player.y + vector.y;
+  const feature = getFeature(gameState, x, y);
+  if (!feature || feature.type !== FEATURE_TYPES.DOOR || !feature.open) {
+    return { success: false, error: 'No open door there' };
+  }
+
+  if (gameState.actorMap[x + '_' + y] || gameState.items.some(item => item.x === x && item.y === y)) {
+    return { success: false, error: 'Something is in the way' };
+  }
+
+  feature.open = false;
+  pushEvent(gameState, { type: 'doorClose', actorId: player.id, x, y, gameTime: gameState.gameTime });
+
+  return { success: true, gameState };
+}
+
+/**
+ * Checks whether a floor tile sits in a one-tile-wide passage
+ * @param {Object} map - Floor map
+ * @param {Position} tile - Tile to check
+ * @returns {boolean} True if a door fits on the tile
+ */
+function isDoorway(map: FloorMap, tile: Position): boolean {
+  const open = (dx: number, dy: number) => map.map[tile.x + dx]?.[tile.y + dy] === 0;
+  return (open(-1, 0) && open(1, 0) && !open(0, -1) && !open(0, 1))
+    || (open(0, -1) && open(0, 1) && !open(-1, 0) && !open(1, 0));
+}
+
+/**
+ * Lists the floor tiles just outside a room rectangle
+ * @param {Object} map - Floor map
+ * @param {Object} rect - Room rectangle
+ * @returns {Array<Position>} Entrance tiles
+ */
+function roomEntrances(map: FloorMap, rect: RoomRect): Position[] {
+  const entrances = [];
+  for (let x = rect.x - 1; x <= rect.x + rect.width; x++) {
+    for (let y = rect.y - 1; y <= rect.y + rect.height; y++) {
+      const onBorder = x === rect.x - 1 || x === rect.x + rect.width || y === rect.y - 1 || y === rect.y + rect.height;
+      if (onBorder && map.map[x]?.[y] === 0) {
+        entrances.push({ x, y });
+      }
+    }
+  }
+  return entrances;
+}
+
+/**
+ * Lists the tiles reachable from a position. Traps and water can be walked
+ * through, lava can't: no floor ever makes the player cross it.
+ * @param {Object} map - Floor map
+ * @param {Object.<string, Feature>} features - Tile features
+ * @param {Position} from - Starting position
+ * @param {boolean} throughLocks - Whether locked doors can be passed
+ * @returns {Array<Position>} Reachable tiles, the start included
+ */
+export function reachableTiles(map: FloorMap, features: Record<string, Feature>, from: Position, throughLocks: boolean): Position[] {
+  const seen = new Set([tileKey(from)]);
+  const queue = [from];
+
+  for (let i = 0; i < queue.length; i++) {
+    for (const d of DIRECTION_VECTORS) {
+      const next = { x: queue[i]!.x + d.x, y: queue[i]!.y + d.y };
+      const key = tileKey(next);
+      const feature = features[key];
+      const passable = map.map[next.x]?.[next.y] === 0
+        && (!feature
+          || (feature.type !== FEATURE_TYPES.LAVA && (throughLocks || feature.type !== FEATURE_TYPES.LOCKED_DOOR)));
+      if (passable && !seen.has(key)) {
+        seen.add(key);
+        queue.push(next);
+      }
+    }
+  }
+
+  return queue;
+}
+
+/**
+ * Places the doors and the vault of a new floor. Secret walls are carved
+ * into map.map, so this runs before anything else is placed on the floor.
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @param {Object} map - Floor map (modified in place)
+ * @param {Array<Object>} rooms - Rooms as { rect, tiles }
+ * @param {Array<number>} reserved - Rooms that can't be the vault (start, stairs)
+ * @param {Position} start - Player start
+ * @param {Position} stairs - Stairs (or exit)
+ * @returns {Object} { features, vault } (vault: { lockId, tiles } or null)
+ */
+export function placeFeatures(
+  floorRng: RngHolder,
+  depth: number,
+  map: FloorMap,
+  rooms: Array<{ rect: RoomRect; tiles: Position[] }>,
+  reserved: number[],
+  start: Position,
+  stairs: Position
+): { features: Record<string, Feature>; vault: Vault | null } {
+  const features: Record<string, Feature> = {};
+  const entrances = rooms.map(room => roomEntrances(map, room.rect));
+
+  // The vault needs a door on every entrance
+  const candidates = rooms
+    .map((room, index) => index)
+    .filter(index => !reserved.includes(index)
+      && entrances[index]!.length > 0
+      && entrances[index]!.every(tile => isDoorway(map, tile)));
+
+  // The vault can't be on the way down, nor the only way into another part
+  // of the floor: try rooms until one is off to the side
+  const open = reachableTiles(map, features, start, true).length;
+  let vault: Vault | null = null;
+  while (!vault && candidates.length > 0) {
+    const index = candidates.splice(randomIndex(floorRng, candidates.length), 1)[0]!;
+    const lockId = `vault_${depth}`;
+    const [door, ...hidden] = entrances[index] as [Position, ...Position[]];
+
+    features[tileKey(door)] = { type: FEATURE_TYPES.LOCKED_DOOR, lockId };
+    for (const tile of hidden) {
+      map.map[tile.x]![tile.y] = 1;
+      features[tileKey(tile)] = { type: FEATURE_TYPES.SECRET_WALL };
+    }
+
+    const reachable = reachableTiles(map, features, start, false);
+    if (reachable.some(tile => tile.x === stairs.x && tile.y === stairs.y)
+      && reachableTiles(map, features, start, true).length === open - hidden.length) {
+      vault = { lockId, tiles: rooms[index]!.tiles };
+    } else {
+      delete features[tileKey(door)];
+      for (const tile of hidden) {
+        map.map[tile.x]![tile.y] = 0;
+        delete features[tileKey(tile)];
+      }
+    }
+  }
+
+  entrances.forEach(tiles => {
+    for (const tile of tiles) {
+      if (!features[tileKey(tile)] && isDoorway(map, tile) && random(floorRng) < DOOR_CHANCE) {
+        features[tileKey(tile)] = { type: FEATURE_TYPES.DOOR, open: false };
+      }
+    }
+  });
+
+  return { features, vault };
+}
@@ -0,0 +1,286 @@
+/**
+ * ============================================================================
+ * DUNGEON FLOORS
+ * ============================================================================
+ *
+ * A run is a dungeon of DUNGEON_DEPTH floors.
+ *
+ * FLOOR GENERATION:
+ * - Each floor has its own RNG seeded from the run seed plus the depth, so
+ *   a floor's layout never depends on how the previous floors were played
+ * - The run's dungeon type picks the map generator (see game-mapgen.ts)
+ * - The player starts in one room; the stairs down (or, on the last floor,
+ *   the exit) are placed in a different room. Layouts without rooms (caves)
+ *   put the stairs among the tiles farthest from the start
+ * - Room entrances get doors, and one room becomes a locked vault with its
+ *   key elsewhere on the floor (see game-features.ts)
+ * - Water and lava pools and traps come next (see game-traps.ts); nothing
+ *   else is placed on a feature tile
+ * - The last floor's boss and its guards take the tiles next to the exit
+ *   (see game-bosses.ts)
+ * - Enemies are drawn from the depth's spawn table (see game-bestiary.ts);
+ *   their count, HP and damage scale with depth
+ * - Items are scattered over free tiles (see game-items.ts)
+ *
+ * DESCENDING:
+ * Standing on the stairs, the player can 'descend': map, features, items,
+ * actorList and actorMap are replaced by the next floor and the player keeps
+ * their stats and inventory. Items left behind are lost, and so is the memory
+ * of explored tiles (see game-fov.ts).
+ * Beating the dungeon means killing the last floor's boss (see game-rules.ts).
+ * ============================================================================
+ */
+
+import {
+  DUNGEON_DEPTH,
+  DEFAULT_DUNGEON_TYPE,
+  DIRECTION_VECTORS,
+  ENEMIES_BASE,
+  ENEMIES_PER_DEPTH,
+  FEATURE_TYPES
+} from './game-constants.ts';
+import { createRng, deriveSubSeed, randomIndex } from './game-rng.ts';
+import { pushEvent } from './game-combat.ts';
+import { placeFloorItems, placeVaultItems } from './game-items.ts';
+import { createEnemy, pickEnemyKind } from './game-bestiary.ts';
+import { exploreFov } from './game-fov.ts';
+import { generateMap, getFloorGenerator } from './game-mapgen.ts';
+import { placeFeatures, reachableTiles } from './game-features.ts';
+import { placeHazards, placeTraps } from './game-traps.ts';
+import { placeBoss } from './game-bosses.ts';
+import type { ActionResult, Enemy, Feature, FloorMap, GameState, Item, Position, RoomRect } from './game-constants.ts';
+
+/**
+ * A generated floor (see generateFloor)
+ */
+export interface Floor {
+  depth: number;                      // Floor depth (1-based)
+  map: FloorMap;                      // Layout
+  start: Position;                    // Player start
+  stairs: Position | null;            // Stairs down (null on the last floor)
+  exit: Position | null;              // Dungeon exit (last floor only)
+  bossId: string | null;              // ID of the boss (last floor only)
+  enemies: Enemy[];                   // Monsters, the boss and its guards first
+  items: Item[];                      // Items lying on the floor
+  features: Record<string, Feature>;  // Tile features by position "x_y"
+}
+
+/**
+ * Lists the floor tiles inside a room
+ * @param {Object} map - Floor map
+ * @param {Object} room - Room rectangle
+ * @returns {Array<Position>} Floor tiles
+ */
+function roomTiles(map: FloorMap, room: RoomRect): Position[] {
+  const tiles = [];
+  for (let x = room.x; x < room.x + room.width; x++) {
+    for (let y = room.y; y < room.y + room.height; y++) {
+      if (map.map[x]?.[y] === 0) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Lists every floor tile of a map
+ * @param {Object} map - Floor map
+ * @returns {Array<Position>} Floor tiles
+ */
+function floorTiles(map: FloorMap): Position[] {
+  const tiles = [];
+  for (let x = 0; x < map.width; x++) {
+    for (let y = 0; y < map.height; y++) {
+      if (!map.map[x]![y]) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Lists the floor tiles farthest (in steps) from a position
+ * @param {Object} map - Floor map
+ * @param {Position} from - Starting position
+ * @returns {Array<Position>} Tiles at least 3/4 of the longest walk away
+ */
+function farthestTiles(map: FloorMap, from: Position): Position[] {
+  const distance: Record<string, number> = { [from.x + '_' + from.y]: 0 };
+  const queue = [from];
+  let longest = 0;
+
+  for (let i = 0; i < queue.length; i++) {
+    const tile = queue[i]!;
+    const steps = distance[tile.x + '_' + tile.y]!;
+    longest = Math.max(longest, steps);
+
+    for (const d of DIRECTION_VECTORS) {
+      const next = { x: tile.x + d.x, y: tile.y + d.y };
+      const key = next.x + '_' + next.y;
+      if (map.map[next.x]?.[next.y] === 0 && distance[key] === undefined) {
+        distance[key] = steps + 1;
+        queue.push(next);
+      }
+    }
+  }
+
+  return queue.filter(tile => distance[tile.x + '_' + tile.y]! >= longest * 0.75);
+}
+
+/**
+ * Generates a complete floor: map, start, stairs/exit, features, enemies
+ * and items
+ * @param {number} runSeed - Seed of the run
+ * @param {number} depth - Floor depth (1-based)
+ * @param {string} [dungeonType] - One of DUNGEON_TYPES (classic if omitted)
+ * @returns {Object} Floor description
+ */
+export function generateFloor(runSeed: number, depth: number, dungeonType: string = DEFAULT_DUNGEON_TYPE): Floor {
+  const floorRng = { rng: createRng(deriveSubSeed(runSeed, depth)) };
+  const map = generateMap(floorRng, getFloorGenerator(dungeonType, depth));
+
+  const rooms = map.rooms
+    .map(rect => ({ rect, tiles: roomTiles(map, rect) }))
+    .filter(room => room.tiles.length > 0);
+
+  let start: Position, stairs: Position;
+  let reserved: number[] = [];
+  if (rooms.length >= 2) {
+    // Start and stairs in two different rooms
+    const startRoom = randomIndex(floorRng, rooms.length);
+    let stairsRoom = randomIndex(floorRng, rooms.length - 1);
+    if (stairsRoom >= startRoom) {
+      stairsRoom++;
+    }
+    reserved = [startRoom, stairsRoom];
+
+    const startTiles = rooms[startRoom]!.tiles;
+    const stairsTiles = rooms[stairsRoom]!.tiles;
+    start = startTiles[randomIndex(floorRng, startTiles.length)]!;
+    stairs = stairsTiles[randomIndex(floorRng, stairsTiles.length)]!;
+  } else {
+    // Every tile is reachable (see connectMap), so the far end always exists
+    const open = floorTiles(map);
+    start = open[randomIndex(floorRng, open.length)]!;
+    const far = farthestTiles(map, start);
+    stairs = far[randomIndex(floorRng, far.length)]!;
+  }
+
+  // Secret walls turn floor into wall, so free tiles are listed afterwards
+  const { features, vault } = placeFeatures(floorRng, depth, map, rooms, reserved, start, stairs);
+  const validpos = floorTiles(map);
+  placeHazards(floorRng, depth, map, features, validpos, [start, stairs]);
+  placeTraps(floorRng, depth, features, validpos, [start, stairs]);
+
+  const occupied = { [start.x + '_' + start.y]: true, [stairs.x + '_' + stairs.y]: true };
+  for (const key of Object.keys(features)) {
+    occupied[key] = true;
+  }
+
+  const vaultItems = vault
+    ? placeVaultItems(floorRng, depth, vault, reachableTiles(map, features, start, false), occupied)
+    : [];
+
+  // With no tile left for the key the vault door is left unlocked
+  if (vault && vaultItems.length === 0) {
+    for (const [key, feature] of Object.entries(features)) {
+      if (feature.lockId === vault.lockId) {
+        features[key] = { type: FEATURE_TYPES.DOOR, open: false };
+      }
+    }
+  }
+
+  const isLastFloor = depth === DUNGEON_DEPTH;
+
+  // The boss guards the exit
+  const enemies = isLastFloor ? placeBoss(floorRng, depth, map, features, stairs, occupied) : [];
+  const bossId = enemies[0]?.id ?? null;
+
+  const enemyCount = ENEMIES_BASE + (depth - 1) * ENEMIES_PER_DEPTH;
+  for (let e = 1; e <= enemyCount; e++) {
+    const free = validpos.filter(tile => !occupied[tile.x + '_' + tile.y]);
+    if (free.length === 0) {
+      break;
+    }
+
+    const { x, y } = free[randomIndex(floorRng, free.length)]!;
+    const enemy = createEnemy(pickEnemyKind(floorRng, depth), `enemy_${depth}_${e}`, x, y, depth);
+    occupied[x + '_' + y] = true;
+    enemies.push(enemy);
+  }
+
+  const items = [...vaultItems, ...placeFloorItems(floorRng, depth, validpos, occupied)];
+
+  return {
+    depth,
+    map,
+    start: { x: start.x, y: start.y },
+    stairs: isLastFloor ? null : { x: stairs.x, y: stairs.y },
+    exit: isLastFloor ? { x: stairs.x, y: stairs.y } : null,
+    bossId,
+    enemies,
+    items,
+    features
+  };
+}
+
+/**
+ * Replaces the current floor of a game with the floor at the given depth
+ * @param {GameState} gameState - Current game state
+ * @param {number} depth - Floor depth (1-based)
+ */
+export function enterFloor(gameState: GameState, depth: number) {
+  const floor = generateFloor(gameState.randomSeed, depth, gameState.dungeonType);
+  const player = gameState.player;
+
+  player.x = floor.start.x;
+  player.y = floor.start.y;
+
+  gameState.depth = depth;
+  gameState.map = floor.map;
+  gameState.stairs = floor.stairs;
+  gameState.exit = floor.exit;
+  gameState.bossId = floor.bossId;
+  gameState.items = floor.items;
+  gameState.features = floor.features;
+  gameState.actorList = [player, ...floor.enemies];
+  gameState.actorMap = {};
+  for (const actor of gameState.actorList) {
+    gameState.actorMap[actor.x + '_' + actor.y] = actor;
+  }
+
+  // A new floor starts unexplored, apart from what the player sees
+  gameState.explored = {};
+  exploreFov(gameState);
+}
+
+/**
+ * Takes the stairs down to the next floor
+ * @param {GameState} gameState - Current game state
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function descend(gameState: GameState): ActionResult {
+  const player = gameState.player;
+
+  if (!gameState.stairs) {
+    return { success: false, error: 'No stairs on this floor' };
+  }
+
+  if (player.x !== gameState.stairs.x || player.y !== gameState.stairs.y) {
+    return { success: false, error: 'Not on the stairs' };
+  }
+
+  enterFloor(gameState, gameState.depth + 1);
+
+  pushEvent(gameState, {
+    type: 'descend',
+    depth: gameState.depth,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+
+  return { success: true, gameState };
+}
@@ -4,9 +4,36 @@
  * ============================================================================
  *
  * Functions for formatting game state for client transmission.
+ * Clients only receive the actors, items and events the player can see and
+ * the tiles they have explored (see game-fov.ts), with the doors, hazards
+ * and known traps on them.
  * ============================================================================
  */
 
+import { ethers } from 'ethers';
+import { serializeGame } from './game-init.ts';
+import { getLoadout, getCombatStats } from './game-equipment.ts';
+import { getNextLevelXp } from './game-progression.ts';
+import { getPlayerFov } from './game-fov.ts';
+import { FEATURE_TYPES } from './game-constants.ts';
+import type { Feature, GameState } from './game-constants.ts';
+
+/**
+ * A feature as clients see it (see formatExploredFeatures)
+ */
+export interface FormattedFeature {
+  x: number;
+  y: number;
+  type: string;   // One of FEATURE_TYPES
+  open: boolean;  // Whether a door is open
+  trap?: string;  // Trap kind (traps only)
+}
+
+/**
+ * The game state a client receives (see formatGameState)
+ */
+export type GameView = ReturnType<typeof formatGameState>;
+
 /**
  * Formats game state for client consumption
  * @param {GameState} gameState - Current game state
@@ -14,39 +41,100 @@
  * @param {number} betAmount - Bet amount (default 0)
  * @returns {Object} Formatted game state for client
  */
-export function formatGameState(gameState, roomId) {
-  // We need to serialize the map if it's a ROT.js map object
-  // For now, let's assume we just send the actor list and map data
-  // If map is static, maybe we don't need to send it every time?
-  // But for simplicity, let's send what's needed.
+export function formatGameState(gameState: GameState, roomId: string) {
+  // Fog of war: only what the player sees or has seen leaves the server
+  const visible = getPlayerFov(gameState);
+  const explored = gameState.explored || {};
+  const isVisible = (pos: { x?: number; y?: number }) => visible.has(pos.x + '_' + pos.y);
+  const isExplored = (pos: { x: number; y: number } | null) => !!pos && !!explored[pos.x + '_' + pos.y];
 
   return {
     roomId,
     players: gameState.players,
     gameTime: gameState.gameTime,
-    actors: gameState.actorList,
-    // map: gameState.map // Sending the whole map might be heavy if it's large
-    // For a simple roguelike, maybe just send actors and let client render map if it's static
-    // Or send map only on initial state.
-    // Let's include it for now, assuming it's serializable.
-    // If gameState.map is a ROT.Map, it might not be directly serializable to JSON.
-    // We might need to extract the grid.
-    // Based on game-init, _map is a ROT.Map.Rogue.
-    // We should probably convert it to a 2D array or similar for the client.
-    // But wait, game-init.ts creates _map but doesn't seem to store the grid in a simple way?
-    // Actually _map.map is likely the grid.
-    map: gameState.map.map
+    seedCommitment: gameState.seedCommitment,
+    actors: gameState.actorList.filter(actor => actor.isPlayer || isVisible(actor)),
+    // Events without a position (game over, level up) are always sent
+    events: (gameState.events || []).filter(event => event.x === undefined || isVisible(event)),
+    depth: gameState.depth,
+    maxDepth: gameState.maxDepth,
+    stairs: isExplored(gameState.stairs) ? gameState.stairs : null,
+    exit: isExplored(gameState.exit) ? gameState.exit : null,
+    items: gameState.items.filter(isVisible),
+    inventory: gameState.player.inventory,
+    equipment: getLoadout(gameState.player),
+    stats: getCombatStats(gameState.player),
+    characterClass: gameState.characterClass,
+    dungeonType: gameState.dungeonType,
+    ability: {
+      id: gameState.player.ability,
+      cooldown: gameState.player.abilityCooldown
+    },
+    progression: {
+      level: gameState.player.level,
+      xp: gameState.player.xp,
+      nextLevelXp: getNextLevelXp(gameState.player),
+      pendingPerks: gameState.player.pendingPerks,
+      perks: gameState.player.perks
+    },
+    features: formatExploredFeatures(gameState.features || {}, explored),
+    visible: [...visible],
+    map: formatExploredMap(gameState.map.map, explored)
   };
 }
 
+/**
+ * Lists the features on explored tiles. Secret walls look like walls and
+ * hidden traps like floor until they are found.
+ * @param {Object.<string, Feature>} features - Tile features ("x_y")
+ * @param {Object.<string, boolean>} explored - Explored tiles ("x_y")
+ * @returns {Array<Object>} Features as { x, y, type, open } plus the trap kind for traps
+ */
+function formatExploredFeatures(features: Record<string, Feature>, explored: Record<string, boolean>): FormattedFeature[] {
+  return Object.entries(features)
+    .filter(([key, feature]) => explored[key] && feature.type !== FEATURE_TYPES.SECRET_WALL && !feature.hidden)
+    .map(([key, feature]) => {
+      const [x, y] = key.split('_').map(Number) as [number, number];
+      const formatted: FormattedFeature = { x, y, type: feature.type, open: !!feature.open };
+      if (feature.trap) {
+        formatted.trap = feature.trap;
+      }
+      return formatted;
+    });
+}
+
+/**
+ * Hides the tiles the player has not explored
+ * @param {Array<Array<number>>} grid - Floor grid (grid[x][y])
+ * @param {Object.<string, boolean>} explored - Explored tiles ("x_y")
+ * @returns {Array<Array<number|null>>} Grid with unexplored tiles set to null
+ */
+function formatExploredMap(grid: number[][], explored: Record<string, boolean>): Array<Array<number | null>> {
+  return grid.map((column, x) => column.map((tile, y) => (explored[x + '_' + y] ? tile : null)));
+}
+
 /**
  * Formats game over message
  * @param {GameState} gameState - Current game state
  * @returns {Object} Game over message
  */
-export function formatGameOverMessage(gameState) {
+export function formatGameOverMessage(gameState: GameState) {
   return {
     winner: gameState.winner,
+    endCondition: gameState.endCondition,
+    playerHp: gameState.player.hp,
+    level: gameState.player.level,
+    xp: gameState.player.xp,
+    enemiesLeft: gameState.actorList.filter(actor => !actor.isPlayer).length,
     gameTime: gameState.gameTime
   };
 }
+
+/**
+ * Hashes a game state
+ * @param {GameState} gameState - Current game state
+ * @returns {string} keccak256 hash of the serialized state
+ */
+export function hashGameState(gameState: GameState): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(serializeGame(gameState))));
+}
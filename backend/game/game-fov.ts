@@ -0,0 +1,97 @@
+/**
+ * ============================================================================
+ * FIELD OF VIEW
+ * ============================================================================
+ *
+ * Line-of-sight queries over the current floor, using ROT.js precise
+ * shadowcasting. Walls and closed doors block sight; actors and items do
+ * not.
+ *
+ * Visible tiles are returned as a set of "x_y" keys, the same key format
+ * as gameState.actorMap.
+ *
+ * FOG OF WAR:
+ * The player sees PLAYER_SIGHT tiles around them. Every tile they have
+ * seen on the current floor is remembered in gameState.explored, and
+ * game-format.ts only sends visible actors and explored tiles to clients.
+ * ============================================================================
+ */
+
+import * as ROT from 'rot-js';
+import { PLAYER_SIGHT } from './game-constants.ts';
+import { getFeature, isBlocking } from './game-features.ts';
+import type { GameState, Position } from './game-constants.ts';
+
+/**
+ * Checks whether light passes through a tile
+ * @param {GameState} gameState - Current game state
+ * @param {number} x - X coordinate
+ * @param {number} y - Y coordinate
+ * @returns {boolean} True for in-bounds floor tiles without a closed door
+ */
+function lightPasses(gameState: GameState, x: number, y: number): boolean {
+  const map = gameState.map;
+  if (x < 0 || x >= map.width || y < 0 || y >= map.height || map.map[x]![y] !== 0) {
+    return false;
+  }
+  const feature = getFeature(gameState, x, y);
+  return !feature || !isBlocking(feature);
+}
+
+/**
+ * Computes the tiles visible from a position
+ * @param {GameState} gameState - Current game state
+ * @param {number} x - Viewer X coordinate
+ * @param {number} y - Viewer Y coordinate
+ * @param {number} radius - Sight radius
+ * @returns {Set<string>} Visible tiles ("x_y"), walls bordering the view included
+ */
+export function computeFov(gameState: GameState, x: number, y: number, radius: number): Set<string> {
+  const fov = new ROT.FOV.PreciseShadowcasting((tx, ty) => lightPasses(gameState, tx, ty));
+
+  const visible = new Set<string>();
+  fov.compute(x, y, radius, (tx, ty) => {
+    visible.add(tx + '_' + ty);
+  });
+
+  return visible;
+}
+
+/**
+ * Checks whether one position can see another
+ * @param {GameState} gameState - Current game state
+ * @param {Position} from - Viewer position
+ * @param {Position} to - Target position
+ * @param {number} radius - Sight radius
+ * @returns {boolean} True if the target tile is in the viewer's field of view
+ */
+export function canSee(gameState: GameState, from: Position, to: Position, radius: number): boolean {
+  // Cheap reject before shadowcasting
+  if (Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y)) > radius) {
+    return false;
+  }
+  return computeFov(gameState, from.x, from.y, radius).has(to.x + '_' + to.y);
+}
+
+/**
+ * Computes the tiles the player currently sees
+ * @param {GameState} gameState - Current game state
+ * @returns {Set<string>} Visible tiles ("x_y")
+ */
+export function getPlayerFov(gameState: GameState): Set<string> {
+  const player = gameState.player;
+  return computeFov(gameState, player.x, player.y, PLAYER_SIGHT);
+}
+
+/**
+ * Adds the tiles the player currently sees to the explored tiles
+ * @param {GameState} gameState - Current game state
+ * @returns {Set<string>} Visible tiles ("x_y")
+ */
+export function exploreFov(gameState: GameState): Set<string> {
+  const visible = getPlayerFov(gameState);
+  for (const key of visible) {
+    gameState.explored[key] = true;
+  }
+  return visible;
+}
@@ -3,105 +3,153 @@
  * GAME INITIALIZATION
  * ============================================================================
  *
- * Functions for creating new game instances and initial snake states.
+ * Functions for creating new game instances and (de)serializing them.
  * ============================================================================
  */
 
-import * as ROT from 'rot-js';
 import { ethers } from 'ethers';
-import { ROWS, COLS, ACTORS } from './game-constants.js';
+import { DUNGEON_DEPTH, DEFAULT_CHARACTER_CLASS, DEFAULT_DUNGEON_TYPE, ACTION_ENERGY, NORMAL_SPEED } from './game-constants.js';
+import { generateSeed, createRng, restoreRng } from './game-rng.ts';
+import { enterFloor } from './game-floors.ts';
+import { createEquipment } from './game-equipment.ts';
+import { applyCharacterClass } from './game-classes.ts';
+import type { GameState, Player } from './game-constants.ts';
 
-function createActorPlayer(x, y) {
-  return {
-    hp: 30,
-    x: x,
-    y: y,
-    isPlayer: true,
-    damage: 'd8+2',
-  };
+/**
+ * Options of a new game (see createGame)
+ */
+export interface GameOptions {
+  seed?: number;           // Seed for the game's RNG (random if omitted)
+  seedCommitment?: string; // Published commitment the seed derives from
+  characterClass?: string; // Player's class (see CHARACTER_CLASSES)
+  dungeonType?: string;    // Layout family of the run (see DUNGEON_TYPES)
 }
 
-function createActorEnemy(x, y) {
-  return {
-    hp: 10,
+/**
+ * A game as stored and sent around: everything but the derived data
+ */
+export type SerializedGame = Omit<GameState, 'rng' | 'actorMap'>;
+
+/**
+ * Creates the player actor
+ * @param {string} id - Actor ID
+ * @param {string} eoa - Player's Ethereum address
+ * @param {number} x - X coordinate
+ * @param {number} y - Y coordinate
+ * @param {string} characterClass - Class ID (see CHARACTER_CLASSES)
+ * @returns {Player} Player actor with its class stats and starting kit
+ */
+function createActorPlayer(id: string, eoa: string, x: number, y: number, characterClass: string): Player {
+  const player: Player = {
     x: x,
     y: y,
-    isPlayer: false,
-    damage: 'd4+1',
+    isPlayer: true,
+    speed: NORMAL_SPEED,
+    energy: ACTION_ENERGY,
+    damageBonus: 0,
+    level: 1,
+    xp: 0,
+    pendingPerks: 0,
+    perks: [],
+    inventory: [],
+    equipment: createEquipment(),
+    effects: [],
+    // Class stats, set by applyCharacterClass
+    characterClass: characterClass,
+    hp: 0,
+    maxHp: 0,
+    damage: '',
+    defense: 0,
+    toHit: 0,
+    critChance: 0,
+    ability: '',
+    abilityCooldown: 0,
+    eoa: eoa,
+    id: id,
   };
+
+  return applyCharacterClass(player, characterClass);
 }
+
 /**
  * Creates a new game state
  * @param {string} hostEoa - Host's Ethereum address (player 1)
+ * @param {GameOptions} [options] - Game options
  * @returns {GameState} Initial game state
  */
-/**
- * Creates a new game state
- * @param {string} hostEoa - Host's Ethereum address (player 1)
- * @param {string} [guestEoa] - Guest's Ethereum address (player 2)
- * @returns {GameState} Initial game state
- */
-export function createGame(hostEoa) {
+export function createGame(hostEoa: string, options: GameOptions = {}): GameState {
   // Format addresses to proper checksum format
   // We assume caller handles checksum or we do it here if needed.
   // ethers.getAddress(hostEoa) if we want to be safe.
 
-  const randomSeed = 12345;
-  ROT.RNG.setSeed(randomSeed);
-
-  const _map = new ROT.Map.Rogue(COLS, ROWS);
-  _map.create();
-  const actorList = [];
-  const actorMap = {};
-
-  const validpos = [];
-  for (let x = 0; x < COLS; x++) {
-    for (let y = 0; y < ROWS; y++) {
-      if (!_map.map[x][y]) {
-        validpos.push({ x: x, y: y });
-      }
-    }
-  }
+  const randomSeed = options.seed ?? generateSeed();
+  const rng = createRng(randomSeed);
 
-  for (let e = 0; e < ACTORS; e++) {
-    let x, y;
-    do {
-      const r = validpos[Math.floor(ROT.RNG.getUniform() * validpos.length)];
-      x = r.x;
-      y = r.y;
-    } while (actorMap[x + '_' + y]);
-
-
-    const actor = (e === 0)
-      ? createActorPlayer(x, y)
-      : createActorEnemy(x, y);
-
-    // Assign ID or EOA to player actor
-    if (actor.isPlayer) {
-      actor.eoa = hostEoa;
-      actor.id = 'player'; // Main player ID
-    } else {
-      actor.id = `enemy_${e}`;
-    }
-
-    actorMap[actor.x + '_' + actor.y] = actor;
-    actorList.push(actor);
-  }
+  const characterClass = options.characterClass || DEFAULT_CHARACTER_CLASS;
+  const player = createActorPlayer('player', hostEoa, 0, 0, characterClass); // Main player ID
 
-  const player = actorList[0];
-
-  return {
+  const gameState: GameState = {
     randomSeed: randomSeed,
-    randomState: ROT.RNG.getState(),
-    map: _map,
-    actorList: actorList,
-    actorMap: actorMap,
+    seedCommitment: options.seedCommitment || null,
+    randomState: rng.getState(),
+    rng: rng,
+    depth: 0,
+    maxDepth: DUNGEON_DEPTH,
+    map: { width: 0, height: 0, map: [], rooms: [], generator: '' }, // Replaced by enterFloor below
+    actorList: [],
+    actorMap: {},
     player: player,
+    characterClass: characterClass,
+    dungeonType: options.dungeonType || DEFAULT_DUNGEON_TYPE,
+    stairs: null,
+    exit: null,
+    bossId: null,
+    items: [],
+    features: {},
+    explored: {},
     winner: null,
     isGameOver: false,
+    endCondition: null,
     gameTime: 0,
+    players: { host: hostEoa },
     playereoa: hostEoa,
   };
+
+  // Floors derive their own RNG from the run seed and depth
+  enterFloor(gameState, 1);
+
+  return gameState;
 }
 
+/**
+ * Converts a game state into a JSON-safe snapshot.
+ * actorMap and rng are derived data and are rebuilt by restoreGame.
+ * @param {GameState} gameState - Game state to serialize
+ * @returns {SerializedGame} Plain snapshot
+ */
+export function serializeGame(gameState: GameState): SerializedGame {
+  const { rng, actorMap, ...snapshot } = gameState;
+  return JSON.parse(JSON.stringify(snapshot));
+}
 
+/**
+ * Restores a game from a snapshot produced by serializeGame
+ * @param {SerializedGame} snapshot - Serialized game
+ * @returns {GameState} Playable game state with identical future rolls
+ */
+export function restoreGame(snapshot: SerializedGame): GameState {
+  const gameState: GameState = JSON.parse(JSON.stringify(snapshot));
+
+  gameState.actorMap = {};
+  for (const actor of gameState.actorList) {
+    gameState.actorMap[actor.x + '_' + actor.y] = actor;
+  }
+
+  // player must be the same object as its actorList entry; a dead player
+  // is no longer listed, so the serialized copy is kept as-is
+  gameState.player = gameState.actorList.find((actor): actor is Player => actor.isPlayer) || gameState.player;
+
+  restoreRng(gameState);
+
+  return gameState;
+}
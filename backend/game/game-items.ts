@@ -0,0 +1,566 @@
+/**
+ * ============================================================================
+ * ITEMS, INVENTORY & LOOT
+ * ============================================================================
+ *
+ * Server-side item rules: what lies on each floor, what enemies drop, and
+ * what the player can do with the items they carry.
+ *
+ * ITEM TYPES:
+ * - Potions - Restore hit points or grant a status effect (see
+ *             game-effects.ts), consumed on use
+ * - Weapons - Equipped in the weapon slot, replace the attack dice. Bows
+ *             also shoot with 'target' (see game-ranged.ts)
+ * - Armor   - Equipped in the armor slot, add defense
+ * - Rings   - Equipped in the ring slot, small stat bonuses
+ * - Scrolls - One-shot magic (teleport, lightning), consumed on use
+ * - Keys    - Open the locked door with the same lockId (see
+ *             game-features.ts); used up by walking into the door
+ * - Wands   - Shot with 'target' (see game-ranged.ts), used up when out of
+ *             charges
+ *
+ * Items on the floor live in gameState.items with their coordinates; the
+ * player's items live in player.inventory (at most INVENTORY_CAPACITY).
+ * Items never block movement. Vaults hold VAULT_TREASURE extra items from
+ * deeper in the floor item table. Using a wearable item equips it, using it
+ * again takes it off (see game-equipment.ts).
+ * ============================================================================
+ */
+
+import { INVENTORY_CAPACITY, ITEM_TYPES, ITEMS_BASE, ITEMS_PER_DEPTH, STATUS_EFFECTS } from './game-constants.ts';
+import { random, randomIndex, pickWeighted } from './game-rng.ts';
+import { attackActor, pushEvent, rollDice } from './game-combat.ts';
+import { equipItem, unequipItem, findEquippedSlot } from './game-equipment.ts';
+import { getFeature, reachableTiles } from './game-features.ts';
+import { applyEffect } from './game-effects.ts';
+import { getPlayerFov } from './game-fov.ts';
+import type { Actor, ActionResult, Enemy, GameEvent, GameState, Item, Player, Position, RngHolder } from './game-constants.ts';
+
+/**
+ * Item definition: what every item of a kind is and does
+ */
+export interface ItemDefinition {
+  name: string;
+  type: string;          // One of ITEM_TYPES
+  heal?: string;         // Hit points restored (potions)
+  status?: string;       // Status effect granted or inflicted (potions, wands)
+  turns?: number;        // Duration of that status effect
+  damage?: string;       // Attack dice (weapons, wands, scrolls)
+  rangedDamage?: string; // Damage dice when shot (bows)
+  range?: number;        // Reach when aimed (bows, wands)
+  projectile?: string;   // Projectile drawn by clients when aimed
+  toHit?: number;        // Bonus to the d20 attack roll while worn
+  critChance?: number;   // Crit chance added while worn
+  defense?: number;      // Defense added while worn
+  damageBonus?: number;  // Flat damage added while worn
+  effect?: string;       // Scroll effect ('teleport' or 'lightning')
+  charges?: number;      // Shots in a new wand
+}
+
+/**
+ * Weighted entry of an item table
+ */
+export interface ItemTableEntry {
+  kind: string;      // Catalog key
+  weight: number;    // Relative chance
+  minDepth?: number; // First depth the item can appear on (floor items)
+}
+
+// Maximum distance (Chebyshev) at which a scroll of lightning finds a target
+const LIGHTNING_RANGE = 6;
+
+// Number of items in a vault, and how many floors deeper they may come from
+const VAULT_TREASURE = 3;
+const VAULT_DEPTH_BONUS = 2;
+
+/**
+ * Item catalog, keyed by kind
+ */
+export const ITEMS: Record<string, ItemDefinition> = {
+  potion_healing: { name: 'Potion of healing', type: ITEM_TYPES.POTION, heal: '2d4+4' },
+  potion_greater_healing: { name: 'Potion of greater healing', type: ITEM_TYPES.POTION, heal: '4d4+8' },
+  potion_regeneration: { name: 'Potion of regeneration', type: ITEM_TYPES.POTION, status: STATUS_EFFECTS.REGEN, turns: 12 },
+  potion_haste: { name: 'Potion of haste', type: ITEM_TYPES.POTION, status: STATUS_EFFECTS.HASTE, turns: 10 },
+  dagger: { name: 'Dagger', type: ITEM_TYPES.WEAPON, damage: 'd6+2', toHit: 2, critChance: 0.1 },
+  short_sword: { name: 'Short sword', type: ITEM_TYPES.WEAPON, damage: 'd8+3', toHit: 1 },
+  long_sword: { name: 'Long sword', type: ITEM_TYPES.WEAPON, damage: 'd10+3' },
+  battle_axe: { name: 'Battle axe', type: ITEM_TYPES.WEAPON, damage: '2d6+3', toHit: -1, critChance: 0.05 },
+  short_bow: { name: 'Short bow', type: ITEM_TYPES.WEAPON, damage: 'd4', range: 6, rangedDamage: 'd6+2', projectile: 'arrow' },
+  long_bow: { name: 'Long bow', type: ITEM_TYPES.WEAPON, damage: 'd4', range: 8, rangedDamage: 'd10+2', toHit: -1, projectile: 'arrow' },
+  leather_armor: { name: 'Leather armor', type: ITEM_TYPES.ARMOR, defense: 1 },
+  chain_mail: { name: 'Chain mail', type: ITEM_TYPES.ARMOR, defense: 2 },
+  plate_armor: { name: 'Plate armor', type: ITEM_TYPES.ARMOR, defense: 3, toHit: -1 },
+  ring_accuracy: { name: 'Ring of accuracy', type: ITEM_TYPES.RING, toHit: 2 },
+  ring_protection: { name: 'Ring of protection', type: ITEM_TYPES.RING, defense: 1 },
+  ring_fury: { name: 'Ring of fury', type: ITEM_TYPES.RING, critChance: 0.1 },
+  scroll_teleport: { name: 'Scroll of teleportation', type: ITEM_TYPES.SCROLL, effect: 'teleport' },
+  scroll_lightning: { name: 'Scroll of lightning', type: ITEM_TYPES.SCROLL, effect: 'lightning', damage: '3d6' },
+  vault_key: { name: 'Vault key', type: ITEM_TYPES.KEY },
+  wand_fire: { name: 'Wand of fire', type: ITEM_TYPES.WAND, damage: '2d6', range: 6, charges: 4, projectile: 'fire' },
+  wand_frost: {
+    name: 'Wand of frost',
+    type: ITEM_TYPES.WAND,
+    damage: 'd6',
+    range: 6,
+    charges: 5,
+    projectile: 'frost',
+    status: STATUS_EFFECTS.STUN,
+    turns: 1
+  }
+};
+
+/**
+ * Items lying on the floors, with the first depth they can appear on
+ */
+export const FLOOR_ITEMS: Array<ItemTableEntry & { minDepth: number }> = [
+  { kind: 'potion_healing', weight: 10, minDepth: 1 },
+  { kind: 'scroll_teleport', weight: 4, minDepth: 1 },
+  { kind: 'leather_armor', weight: 3, minDepth: 1 },
+  { kind: 'short_sword', weight: 3, minDepth: 1 },
+  { kind: 'dagger', weight: 2, minDepth: 1 },
+  { kind: 'short_bow', weight: 2, minDepth: 1 },
+  { kind: 'scroll_lightning', weight: 4, minDepth: 2 },
+  { kind: 'wand_fire', weight: 2, minDepth: 2 },
+  { kind: 'potion_regeneration', weight: 3, minDepth: 2 },
+  { kind: 'potion_haste', weight: 2, minDepth: 2 },
+  { kind: 'chain_mail', weight: 2, minDepth: 2 },
+  { kind: 'ring_accuracy', weight: 1, minDepth: 2 },
+  { kind: 'ring_protection', weight: 1, minDepth: 3 },
+  { kind: 'ring_fury', weight: 1, minDepth: 3 },
+  { kind: 'long_sword', weight: 2, minDepth: 3 },
+  { kind: 'long_bow', weight: 1, minDepth: 3 },
+  { kind: 'wand_frost', weight: 2, minDepth: 3 },
+  { kind: 'potion_greater_healing', weight: 4, minDepth: 3 },
+  { kind: 'plate_armor', weight: 1, minDepth: 4 },
+  { kind: 'battle_axe', weight: 1, minDepth: 4 }
+];
+
+/**
+ * Loot tables rolled when an enemy dies (see Actor.loot)
+ */
+export const LOOT_TABLES: Record<string, { chance: number; items: ItemTableEntry[] }> = {
+  common: {
+    chance: 0.25,
+    items: [
+      { kind: 'potion_healing', weight: 6 },
+      { kind: 'scroll_teleport', weight: 2 },
+      { kind: 'scroll_lightning', weight: 2 },
+      { kind: 'dagger', weight: 1 },
+      { kind: 'short_sword', weight: 1 },
+      { kind: 'leather_armor', weight: 1 }
+    ]
+  }
+};
+
+/**
+ * Creates an item instance from the catalog
+ * @param {string} kind - Catalog key
+ * @param {string} id - Unique item ID
+ * @param {number} [x] - X coordinate when placed on the floor
+ * @param {number} [y] - Y coordinate when placed on the floor
+ * @returns {Item} New item
+ */
+export function createItem(kind: string, id: string, x?: number, y?: number): Item {
+  const definition = ITEMS[kind];
+  if (!definition) {
+    throw new Error(`Unknown item kind: ${kind}`);
+  }
+
+  const item: Item = { id, kind, name: definition.name, type: definition.type };
+  if (definition.charges) {
+    item.charges = definition.charges;
+  }
+  if (x !== undefined) {
+    item.x = x;
+    item.y = y;
+  }
+  return item;
+}
+
+/**
+ * Scatters the items of a new floor over free tiles
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @param {Array<Position>} tiles - Candidate floor tiles
+ * @param {Object.<string, boolean>} occupied - Tiles already taken ("x_y")
+ * @returns {Array<Item>} Items lying on the floor
+ */
+export function placeFloorItems(floorRng: RngHolder, depth: number, tiles: Position[], occupied: Record<string, boolean>): Item[] {
+  const table = FLOOR_ITEMS.filter(entry => entry.minDepth <= depth);
+  const itemCount = ITEMS_BASE + (depth - 1) * ITEMS_PER_DEPTH;
+
+  const items = [];
+  for (let i = 1; i <= itemCount; i++) {
+    const free = tiles.filter(tile => !occupied[tile.x + '_' + tile.y]);
+    if (free.length === 0) {
+      break;
+    }
+
+    const tile = free[randomIndex(floorRng, free.length)]!;
+    const { kind } = pickWeighted(floorRng, table);
+    occupied[tile.x + '_' + tile.y] = true;
+    items.push(createItem(kind, `item_${depth}_${i}`, tile.x, tile.y));
+  }
+
+  return items;
+}
+
+/**
+ * Places the key of a floor's vault and the treasure inside it
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @param {Object} vault - Vault from placeFeatures ({ lockId, tiles })
+ * @param {Array<Position>} keyTiles - Tiles reachable without the key
+ * @param {Object.<string, boolean>} occupied - Tiles already taken ("x_y")
+ * @returns {Array<Item>} The key and the treasure (none if no tile is left
+ *   for the key)
+ */
+export function placeVaultItems(
+  floorRng: RngHolder,
+  depth: number,
+  vault: { lockId: string; tiles: Position[] },
+  keyTiles: Position[],
+  occupied: Record<string, boolean>
+): Item[] {
+  const free = (tiles: Position[]) => tiles.filter(tile => !occupied[tile.x + '_' + tile.y]);
+  const items: Item[] = [];
+
+  const keyCandidates = free(keyTiles);
+  if (keyCandidates.length === 0) {
+    return items;
+  }
+  const keyTile = keyCandidates[randomIndex(floorRng, keyCandidates.length)]!;
+  const key = createItem('vault_key', `key_${depth}`, keyTile.x, keyTile.y);
+  key.lockId = vault.lockId;
+  occupied[keyTile.x + '_' + keyTile.y] = true;
+  items.push(key);
+
+  const table = FLOOR_ITEMS.filter(entry => entry.minDepth <= depth + VAULT_DEPTH_BONUS);
+  for (let i = 1; i <= VAULT_TREASURE; i++) {
+    const tiles = free(vault.tiles);
+    if (tiles.length === 0) {
+      break;
+    }
+    const tile = tiles[randomIndex(floorRng, tiles.length)]!;
+    const { kind } = pickWeighted(floorRng, table);
+    occupied[tile.x + '_' + tile.y] = true;
+    items.push(createItem(kind, `vault_${depth}_${i}`, tile.x, tile.y));
+  }
+
+  return items;
+}
+
+/**
+ * Drops whatever a dead enemy carried (e.g. stolen items) and rolls its
+ * loot table, all on the tile where it died
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - The enemy that died
+ * @returns {Item|null} The item rolled from the loot table, if any
+ */
+export function dropLoot(gameState: GameState, actor: Enemy): Item | null {
+  for (const carried of actor.inventory || []) {
+    carried.x = actor.x;
+    carried.y = actor.y;
+    gameState.items.push(carried);
+
+    pushEvent(gameState, {
+      type: 'loot',
+      itemId: carried.id,
+      kind: carried.kind,
+      sourceId: actor.id,
+      x: carried.x,
+      y: carried.y,
+      gameTime: gameState.gameTime
+    });
+  }
+  actor.inventory = [];
+
+  const table = actor.loot ? LOOT_TABLES[actor.loot] : undefined;
+  if (!table || random(gameState) >= table.chance) {
+    return null;
+  }
+
+  const { kind } = pickWeighted(gameState, table.items);
+  const item = createItem(kind, `loot_${actor.id}`, actor.x, actor.y);
+  gameState.items.push(item);
+
+  pushEvent(gameState, {
+    type: 'loot',
+    itemId: item.id,
+    kind: item.kind,
+    sourceId: actor.id,
+    x: item.x,
+    y: item.y,
+    gameTime: gameState.gameTime
+  });
+
+  return item;
+}
+
+/**
+ * Finds an item in the player's inventory
+ * @param {Actor} player - Player actor
+ * @param {string} itemId - Item ID
+ * @returns {Item|undefined} The item
+ */
+export function findInventoryItem(player: Player, itemId: string | undefined): Item | undefined {
+  return player.inventory.find(item => item.id === itemId);
+}
+
+/**
+ * Removes an item from the player's inventory, unequipping it first
+ * @param {Actor} player - Player actor
+ * @param {Item} item - Carried item
+ */
+export function removeFromInventory(player: Player, item: Item) {
+  unequipItem(player, item.id);
+  player.inventory.splice(player.inventory.indexOf(item), 1);
+}
+
+/**
+ * Picks up an item from the player's tile
+ * @param {GameState} gameState - Current game state
+ * @param {string} [itemId] - Item to pick up (defaults to the first one on the tile)
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function pickupItem(gameState: GameState, itemId?: string): ActionResult {
+  const player = gameState.player;
+
+  const item = gameState.items.find(candidate =>
+    candidate.x === player.x &&
+    candidate.y === player.y &&
+    (!itemId || candidate.id === itemId)
+  );
+
+  if (!item) {
+    return { success: false, error: 'Nothing to pick up here' };
+  }
+
+  if (player.inventory.length >= INVENTORY_CAPACITY) {
+    return { success: false, error: 'Inventory is full' };
+  }
+
+  gameState.items.splice(gameState.items.indexOf(item), 1);
+  delete item.x;
+  delete item.y;
+  player.inventory.push(item);
+
+  pushEvent(gameState, {
+    type: 'pickup',
+    itemId: item.id,
+    kind: item.kind,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+
+  return { success: true, gameState };
+}
+
+/**
+ * Drops a carried item on the player's tile
+ * @param {GameState} gameState - Current game state
+ * @param {string} itemId - Item to drop
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function dropItem(gameState: GameState, itemId: string | undefined): ActionResult {
+  const player = gameState.player;
+
+  const item = findInventoryItem(player, itemId);
+  if (!item) {
+    return { success: false, error: 'Item not in inventory' };
+  }
+
+  removeFromInventory(player, item);
+  item.x = player.x;
+  item.y = player.y;
+  gameState.items.push(item);
+
+  pushEvent(gameState, {
+    type: 'drop',
+    itemId: item.id,
+    kind: item.kind,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+
+  return { success: true, gameState };
+}
+
+/**
+ * Takes a random unequipped item from a victim's inventory
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} thief - Actor stealing
+ * @param {Actor} victim - Actor robbed
+ * @returns {Item|null} The stolen item, if any
+ */
+export function stealItem(gameState: GameState, thief: Enemy, victim: Player): Item | null {
+  const candidates = victim.inventory.filter(item => !findEquippedSlot(victim, item.id));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const item = candidates[randomIndex(gameState, candidates.length)]!;
+  victim.inventory.splice(victim.inventory.indexOf(item), 1);
+  thief.inventory.push(item);
+
+  pushEvent(gameState, {
+    type: 'steal',
+    itemId: item.id,
+    kind: item.kind,
+    thiefId: thief.id,
+    targetId: victim.id,
+    x: thief.x,
+    y: thief.y,
+    gameTime: gameState.gameTime
+  });
+
+  return item;
+}
+
+/**
+ * Moves an actor to a random free floor tile it could walk to (never onto
+ * a door, trap or hazard). Used by scrolls and teleport traps.
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to teleport
+ */
+export function teleportActor(gameState: GameState, actor: Actor) {
+  const map = gameState.map;
+
+  const reachable = new Set(
+    reachableTiles(map, gameState.features || {}, actor, false).map(tile => tile.x + '_' + tile.y)
+  );
+
+  const free = [];
+  for (let x = 0; x < map.width; x++) {
+    for (let y = 0; y < map.height; y++) {
+      const key = x + '_' + y;
+      if (reachable.has(key) && !gameState.actorMap[key] && !getFeature(gameState, x, y)) {
+        free.push({ x, y });
+      }
+    }
+  }
+
+  if (free.length === 0) {
+    return;
+  }
+
+  const tile = free[randomIndex(gameState, free.length)]!;
+  delete gameState.actorMap[actor.x + '_' + actor.y];
+  actor.x = tile.x;
+  actor.y = tile.y;
+  gameState.actorMap[actor.x + '_' + actor.y] = actor;
+}
+
+/**
+ * Finds the closest enemy the player can see within a given range
+ * @param {GameState} gameState - Current game state
+ * @param {number} range - Maximum Chebyshev distance
+ * @returns {Actor|null} The closest enemy, ties broken by actorList order
+ */
+export function closestEnemy(gameState: GameState, range: number): Enemy | null {
+  const player = gameState.player;
+  const visible = getPlayerFov(gameState);
+
+  let closest: Enemy | null = null;
+  let closestDistance = Infinity;
+  for (const actor of gameState.actorList) {
+    if (actor.isPlayer || !visible.has(actor.x + '_' + actor.y)) {
+      continue;
+    }
+    const distance = Math.max(Math.abs(actor.x - player.x), Math.abs(actor.y - player.y));
+    if (distance <= range && distance < closestDistance) {
+      closest = actor;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Uses a carried item: drink a potion, equip or take off a wearable item, or read a scroll
+ * @param {GameState} gameState - Current game state
+ * @param {string} itemId - Item to use
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function useItem(gameState: GameState, itemId: string | undefined): ActionResult {
+  const player = gameState.player;
+
+  const item = findInventoryItem(player, itemId);
+  if (!item) {
+    return { success: false, error: 'Item not in inventory' };
+  }
+
+  const definition = ITEMS[item.kind]!;
+  const event: GameEvent = {
+    type: 'useItem',
+    itemId: item.id,
+    kind: item.kind,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  };
+
+  switch (definition.type) {
+    case ITEM_TYPES.POTION: {
+      if (definition.heal) {
+        const heal = rollDice(gameState, definition.heal).total;
+        const before = player.hp;
+        player.hp = Math.min(player.maxHp, player.hp + heal);
+        event.healed = player.hp - before;
+      }
+      removeFromInventory(player, item);
+      if (definition.status) {
+        pushEvent(gameState, event);
+        applyEffect(gameState, player, definition.status, definition.turns!);
+        return { success: true, gameState };
+      }
+      break;
+    }
+
+    case ITEM_TYPES.WEAPON:
+    case ITEM_TYPES.ARMOR:
+    case ITEM_TYPES.RING:
+      if (findEquippedSlot(player, item.id)) {
+        event.unequipped = unequipItem(player, item.id);
+      } else {
+        event.equipped = equipItem(player, item);
+      }
+      break;
+
+    case ITEM_TYPES.SCROLL:
+      if (definition.effect === 'lightning') {
+        const target = closestEnemy(gameState, LIGHTNING_RANGE);
+        if (!target) {
+          return { success: false, error: 'No enemy in range' };
+        }
+        removeFromInventory(player, item);
+        pushEvent(gameState, event);
+        attackActor(gameState, player, target, { dice: definition.damage });
+        return { success: true, gameState };
+      }
+
+      if (definition.effect === 'teleport') {
+        teleportActor(gameState, player);
+        event.x = player.x;
+        event.y = player.y;
+      }
+      removeFromInventory(player, item);
+      break;
+
+    case ITEM_TYPES.KEY:
+      return { success: false, error: 'Walk into the locked door to use the key' };
+
+    case ITEM_TYPES.WAND:
+      return { success: false, error: 'Aim the wand with target' };
+
+    default:
+      return { success: false, error: 'Item cannot be used' };
+  }
+
+  pushEvent(gameState, event);
+
+  return { success: true, gameState };
+}
@@ -0,0 +1,412 @@
+/**
+ * ============================================================================
+ * MAP GENERATORS
+ * ============================================================================
+ *
+ * Pluggable floor layouts. Every run has a dungeon type (see DUNGEON_TYPES)
+ * that picks the generator of each floor; game-floors.ts calls
+ * generateMap() with the floor's own RNG.
+ *
+ * GENERATOR INTERFACE:
+ *   generate() => { map, rooms }
+ *   - map   - Grid of COLS x ROWS, map[x][y] === 0 is floor, 1 is wall
+ *   - rooms - Room rectangles ({ x, y, width, height }), empty for caves
+ *   Generators run inside withGameRng(), so ROT.js draws from the floor RNG.
+ *
+ * BUILT-IN GENERATORS:
+ * - rogue    - ROT.Map.Rogue, a 3x3 grid of rooms (the classic layout)
+ * - digger   - ROT.Map.Digger, rooms and corridors dug from the center
+ * - uniform  - ROT.Map.Uniform, evenly spread rooms
+ * - cellular - ROT.Map.Cellular caves, no rooms
+ * - prefab   - Hand-authored rooms from PREFABS joined by tunnels
+ *
+ * POST-PROCESSING:
+ * Every layout gets a solid outer wall, loses specks of floor smaller than
+ * MIN_REGION_SIZE and has its remaining areas tunneled together, so any
+ * floor tile can reach any other. Layouts with fewer than MIN_FLOOR_TILES
+ * floor tiles are generated again, falling back to rogue after
+ * MAX_ATTEMPTS tries.
+ *
+ * New generators are added with registerMapGenerator().
+ * ============================================================================
+ */
+
+import * as ROT from 'rot-js';
+import { ROWS, COLS, DUNGEON_TYPES } from './game-constants.ts';
+import { withGameRng } from './game-rng.ts';
+import type { FloorMap, Position, RngHolder, RoomRect } from './game-constants.ts';
+
+/**
+ * Map generator (see GENERATOR INTERFACE above)
+ */
+export interface MapGenerator {
+  generate(): { map: number[][]; rooms: RoomRect[] };
+}
+
+// ROT.js generators that report their tiles through create(), and their rooms
+type RotGenerator = InstanceType<typeof ROT.Map.Digger | typeof ROT.Map.Uniform | typeof ROT.Map.Cellular>;
+type RotRoom = ReturnType<InstanceType<typeof ROT.Map.Digger>['getRooms']>[number];
+
+// Floor areas smaller than this are filled in rather than connected
+const MIN_REGION_SIZE = 4;
+
+// Smallest usable layout: room for the start, the stairs, enemies and items
+const MIN_FLOOR_TILES = 200;
+
+// Attempts before giving up on a generator and falling back to rogue
+const MAX_ATTEMPTS = 5;
+
+// Neighbours used for connectivity (movement is 4-way)
+const NEIGHBOURS: Array<[number, number]> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+/**
+ * Generator used for each floor, per dungeon type
+ * (the last entry repeats for deeper floors)
+ */
+export const DUNGEON_LAYOUTS: Record<string, string[]> = {
+  [DUNGEON_TYPES.CLASSIC]: ['rogue'],
+  [DUNGEON_TYPES.CATACOMBS]: ['digger', 'digger', 'uniform', 'uniform', 'prefab'],
+  [DUNGEON_TYPES.CAVERNS]: ['cellular'],
+  [DUNGEON_TYPES.MIXED]: ['rogue', 'digger', 'cellular', 'uniform', 'prefab']
+};
+
+/**
+ * Hand-authored rooms: '#' is wall, '.' is floor, anything else is left
+ * untouched (solid rock unless a tunnel passes through)
+ */
+export const PREFABS: Record<string, string[]> = {
+  hall: [
+    '#########',
+    '#.......#',
+    '#.......#',
+    '#.......#',
+    '#########'
+  ],
+  pillars: [
+    '###########',
+    '#.........#',
+    '#.#.#.#.#.#',
+    '#.........#',
+    '#.#.#.#.#.#',
+    '#.........#',
+    '###########'
+  ],
+  cross: [
+    '  #####  ',
+    '  #...#  ',
+    '###...###',
+    '#.......#',
+    '###...###',
+    '  #...#  ',
+    '  #####  '
+  ],
+  ring: [
+    '#########',
+    '#.......#',
+    '#.#####.#',
+    '#.#   #.#',
+    '#.#####.#',
+    '#.......#',
+    '#########'
+  ],
+  chapel: [
+    '  #####  ',
+    ' ##...## ',
+    '##.....##',
+    '#.......#',
+    '#...#...#',
+    '#.......#',
+    '#########'
+  ]
+};
+
+// Prefab rooms placed on a prefab floor
+const PREFAB_ROOMS = 10;
+
+/**
+ * Builds a COLS x ROWS grid from a ROT.js map generator
+ * @param {Object} generator - ROT.Map instance
+ * @returns {Array<Array<number>>} Grid (map[x][y])
+ */
+function createGrid(generator: RotGenerator): number[][] {
+  const map = solidGrid();
+  generator.create((x, y, value) => {
+    map[x]![y] = value ? 1 : 0;
+  });
+  return map;
+}
+
+/**
+ * Creates a grid of solid wall
+ * @returns {Array<Array<number>>} Grid (map[x][y])
+ */
+function solidGrid(): number[][] {
+  return Array.from({ length: COLS }, () => new Array(ROWS).fill(1));
+}
+
+/**
+ * Converts ROT.js feature rooms to rectangles
+ * @param {Array<Object>} rooms - ROT.Map.Feature.Room instances
+ * @returns {Array<Object>} Room rectangles
+ */
+function roomRects(rooms: RotRoom[]): RoomRect[] {
+  return rooms.map(room => ({
+    x: room.getLeft(),
+    y: room.getTop(),
+    width: room.getRight() - room.getLeft() + 1,
+    height: room.getBottom() - room.getTop() + 1
+  }));
+}
+
+/**
+ * Stamps the prefab rooms on a solid grid
+ * @returns {Object} { map, rooms }
+ */
+function generatePrefabs(): { map: number[][]; rooms: RoomRect[] } {
+  const map = solidGrid();
+  const rooms: RoomRect[] = [];
+  const kinds = Object.keys(PREFABS);
+
+  for (let attempt = 0; attempt < PREFAB_ROOMS * 20 && rooms.length < PREFAB_ROOMS; attempt++) {
+    const rows = PREFABS[kinds[ROT.RNG.getUniformInt(0, kinds.length - 1)]!]!;
+    const width = rows[0]!.length;
+    const height = rows.length;
+    const x = ROT.RNG.getUniformInt(1, COLS - width - 1);
+    const y = ROT.RNG.getUniformInt(1, ROWS - height - 1);
+
+    // Keep a tile of rock between rooms
+    const overlaps = rooms.some(room =>
+      x <= room.x + room.width && room.x <= x + width &&
+      y <= room.y + room.height && room.y <= y + height
+    );
+    if (overlaps) {
+      continue;
+    }
+
+    rows.forEach((row, dy) => {
+      [...row].forEach((cell, dx) => {
+        if (cell === '#' || cell === '.') {
+          map[x + dx]![y + dy] = cell === '.' ? 0 : 1;
+        }
+      });
+    });
+    rooms.push({ x, y, width, height });
+  }
+
+  return { map, rooms };
+}
+
+// Generator registry, keyed by generator ID
+const generators = new Map<string, MapGenerator>([
+  ['rogue', {
+    generate() {
+      const generator = new ROT.Map.Rogue(COLS, ROWS, {});
+      generator.create();
+
+      // Rogue keeps its rooms in a cell grid, flatten to rectangles
+      const rooms: RoomRect[] = [];
+      for (const column of generator['rooms']) {
+        for (const room of column) {
+          rooms.push({ x: room.x, y: room.y, width: room.width, height: room.height });
+        }
+      }
+
+      return { map: generator['map'], rooms };
+    }
+  }],
+  ['digger', {
+    generate() {
+      // The time limit only guards against endless loops, it must never kick in
+      const generator = new ROT.Map.Digger(COLS, ROWS, { dugPercentage: 0.3, timeLimit: 60000 });
+      const map = createGrid(generator);
+      return { map, rooms: roomRects(generator.getRooms()) };
+    }
+  }],
+  ['uniform', {
+    generate() {
+      const generator = new ROT.Map.Uniform(COLS, ROWS, { roomDugPercentage: 0.2, timeLimit: 60000 });
+      const map = createGrid(generator);
+      return { map, rooms: roomRects(generator.getRooms()) };
+    }
+  }],
+  ['cellular', {
+    generate() {
+      // Live cells are rock; a few smoothing passes turn noise into caves
+      const generator = new ROT.Map.Cellular(COLS, ROWS, { born: [5, 6, 7, 8], survive: [4, 5, 6, 7, 8] });
+      generator.randomize(0.45);
+      for (let i = 0; i < 3; i++) {
+        generator.create();
+      }
+      return { map: createGrid(generator), rooms: [] };
+    }
+  }],
+  ['prefab', {
+    generate: generatePrefabs
+  }]
+]);
+
+/**
+ * Registers (or replaces) a map generator
+ * @param {string} id - Generator ID, as used in DUNGEON_LAYOUTS
+ * @param {Object} generator - Object with a generate() method
+ */
+export function registerMapGenerator(id: string, generator: MapGenerator) {
+  if (!generator || typeof generator.generate !== 'function') {
+    throw new Error(`Map generator ${id} must implement generate()`);
+  }
+  generators.set(id, generator);
+}
+
+/**
+ * Picks the generator of a floor
+ * @param {string} dungeonType - One of DUNGEON_TYPES
+ * @param {number} depth - Floor depth (1-based)
+ * @returns {string} Generator ID
+ */
+export function getFloorGenerator(dungeonType: string, depth: number): string {
+  const layout = DUNGEON_LAYOUTS[dungeonType] || DUNGEON_LAYOUTS[DUNGEON_TYPES.CLASSIC]!;
+  return layout[Math.min(depth, layout.length) - 1]!;
+}
+
+/**
+ * Lists the connected floor areas of a grid
+ * @param {Array<Array<number>>} map - Grid (map[x][y])
+ * @returns {Array<Array<Position>>} Areas, largest first
+ */
+function findRegions(map: number[][]): Position[][] {
+  const seen = solidGrid().map(column => column.fill(0));
+  const regions = [];
+
+  for (let x = 0; x < COLS; x++) {
+    for (let y = 0; y < ROWS; y++) {
+      if (map[x]![y] !== 0 || seen[x]![y]) {
+        continue;
+      }
+
+      const region = [];
+      const stack = [{ x, y }];
+      seen[x]![y] = 1;
+      while (stack.length > 0) {
+        const tile: Position = stack.pop()!;
+        region.push(tile);
+        for (const [dx, dy] of NEIGHBOURS) {
+          const nx = tile.x + dx;
+          const ny = tile.y + dy;
+          if (map[nx]?.[ny] === 0 && !seen[nx]![ny]) {
+            seen[nx]![ny] = 1;
+            stack.push({ x: nx, y: ny });
+          }
+        }
+      }
+      regions.push(region);
+    }
+  }
+
+  // Stable sort keeps equal-sized areas in scan order
+  return regions.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Digs the shortest tunnel from an area to the connected floor
+ * @param {Array<Array<number>>} map - Grid (map[x][y]), modified in place
+ * @param {Array<Position>} region - Area to connect
+ * @param {Array<Array<boolean>>} connected - Connected floor tiles, the tunnel is added
+ */
+function tunnel(map: number[][], region: Position[], connected: boolean[][]) {
+  const previous = new Map<string, Position | null>();
+  const queue = [];
+  for (const tile of region) {
+    previous.set(tile.x + '_' + tile.y, null);
+    queue.push(tile);
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const tile: Position = queue[i]!;
+
+    if (connected[tile.x]![tile.y]) {
+      // Walk back to the area, turning rock into floor
+      let step: Position | null | undefined = tile;
+      while (step) {
+        map[step.x]![step.y] = 0;
+        connected[step.x]![step.y] = true;
+        step = previous.get(step.x + '_' + step.y);
+      }
+      return;
+    }
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const next: Position = { x: tile.x + dx, y: tile.y + dy };
+      const key = next.x + '_' + next.y;
+      // Tunnels never break through the outer wall
+      if (next.x < 1 || next.x >= COLS - 1 || next.y < 1 || next.y >= ROWS - 1 || previous.has(key)) {
+        continue;
+      }
+      previous.set(key, tile);
+      queue.push(next);
+    }
+  }
+}
+
+/**
+ * Walls the border, fills tiny areas and tunnels the rest together
+ * @param {Array<Array<number>>} map - Grid (map[x][y]), modified in place
+ */
+export function connectMap(map: number[][]) {
+  for (let x = 0; x < COLS; x++) {
+    map[x]![0] = 1;
+    map[x]![ROWS - 1] = 1;
+  }
+  for (let y = 0; y < ROWS; y++) {
+    map[0]![y] = 1;
+    map[COLS - 1]![y] = 1;
+  }
+
+  const regions = findRegions(map);
+  const connected = solidGrid().map(column => new Array<boolean>(column.length).fill(false));
+
+  regions.forEach((region, index) => {
+    if (index > 0 && region.length < MIN_REGION_SIZE) {
+      region.forEach(tile => { map[tile.x]![tile.y] = 1; });
+      return;
+    }
+    if (index > 0) {
+      tunnel(map, region, connected);
+    }
+    region.forEach(tile => { connected[tile.x]![tile.y] = true; });
+  });
+}
+
+/**
+ * Counts the floor tiles of a grid
+ * @param {Array<Array<number>>} map - Grid (map[x][y])
+ * @returns {number} Floor tiles
+ */
+function countFloor(map: number[][]): number {
+  return map.reduce((sum, column) => sum + column.filter(tile => tile === 0).length, 0);
+}
+
+/**
+ * Generates the layout of a floor
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {string} generatorId - Generator ID (see getFloorGenerator)
+ * @returns {Object} { width, height, map, rooms, generator }
+ */
+export function generateMap(floorRng: RngHolder, generatorId: string): FloorMap {
+  const generator = generators.get(generatorId);
+  if (!generator) {
+    throw new Error(`Unknown map generator: ${generatorId}`);
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { map, rooms } = withGameRng(floorRng, () => generator.generate());
+    connectMap(map);
+    if (countFloor(map) >= MIN_FLOOR_TILES) {
+      return { width: COLS, height: ROWS, map, rooms, generator: generatorId };
+    }
+  }
+
+  if (generatorId === 'rogue') {
+    throw new Error('Could not generate a usable floor');
+  }
+  return generateMap(floorRng, 'rogue');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { createGame } from './game-init.ts';
+import { moveActor } from './game-movement.ts';
+import { removeActor } from './game-combat.ts';
+import { createEnemy } from './game-bestiary.ts';
+import { DIRECTIONS, FEATURE_TYPES } from './game-constants.ts';
+import type { GameState } from './game-constants.ts';
+
+const PLAYER_EOA = '0x1111111111111111111111111111111111111111';
+
+// A game with the player in the middle of an empty 3x3 floor area
+function openGame(): GameState {
+  const gameState = createGame(PLAYER_EOA, { seed: 1 });
+  const { player } = gameState;
+
+  for (let x = player.x - 1; x <= player.x + 1; x++) {
+    for (let y = player.y - 1; y <= player.y + 1; y++) {
+      gameState.map.map[x]![y] = 0;
+      delete gameState.features[x + '_' + y];
+      const actor = gameState.actorMap[x + '_' + y];
+      if (actor && !actor.isPlayer) {
+        removeActor(gameState, actor);
+      }
+    }
+  }
+
+  return gameState;
+}
+
+describe('moveActor diagonals', () => {
+  test('steps diagonally across open floor', () => {
+    const gameState = openGame();
+    const { x, y } = gameState.player;
+
+    expect(moveActor(gameState, 'player', DIRECTIONS.DOWN_RIGHT).success).toBe(true);
+    expect(gameState.player).toMatchObject({ x: x + 1, y: y + 1 });
+  });
+
+  test('does not cut a wall corner', () => {
+    const gameState = openGame();
+    const { x, y } = gameState.player;
+    gameState.map.map[x + 1]![y] = 1;
+
+    expect(moveActor(gameState, 'player', DIRECTIONS.DOWN_RIGHT))
+      .toEqual({ success: false, error: 'Cannot move diagonally there' });
+    expect(gameState.player).toMatchObject({ x, y });
+  });
+
+  test('does not squeeze past a closed door', () => {
+    const gameState = openGame();
+    const { x, y } = gameState.player;
+    gameState.features[x + '_' + (y + 1)] = { type: FEATURE_TYPES.DOOR, open: false };
+
+    expect(moveActor(gameState, 'player', DIRECTIONS.DOWN_RIGHT).success).toBe(false);
+  });
+
+  test('leaves a doorway straight only', () => {
+    const gameState = openGame();
+    const { x, y } = gameState.player;
+    gameState.features[x + '_' + y] = { type: FEATURE_TYPES.DOOR, open: true };
+
+    expect(moveActor(gameState, 'player', DIRECTIONS.UP_LEFT).success).toBe(false);
+    expect(moveActor(gameState, 'player', DIRECTIONS.UP).success).toBe(true);
+  });
+
+  test('does not attack around a wall corner', () => {
+    const gameState = openGame();
+    const { x, y } = gameState.player;
+    const enemy = createEnemy('rat', 'enemy_test', x + 1, y + 1, 1);
+    gameState.actorList.push(enemy);
+    gameState.actorMap[enemy.x + '_' + enemy.y] = enemy;
+    gameState.map.map[x]![y + 1] = 1;
+
+    expect(moveActor(gameState, 'player', DIRECTIONS.DOWN_RIGHT).success).toBe(false);
+    expect(enemy.hp).toBe(enemy.maxHp);
+  });
+});
@@ -4,20 +4,67 @@
  * ============================================================================
  *
  * Core game logic for roguelike movement, collision detection, and game updates.
+ * Actors step in eight directions; diagonal steps can't cut corners (see
+ * canStepDiagonally).
  * ============================================================================
  */
 
 import { ethers } from 'ethers';
-import { GRID_WIDTH, GRID_HEIGHT, DIRECTIONS } from './game-constants.js';
+import { GRID_WIDTH, GRID_HEIGHT, ACTIONS, MOVE_VECTORS, FEATURE_TYPES } from './game-constants.js';
+import { attackActor, canAttack } from './game-combat.ts';
+import { advanceTime, spendEnergy, getActionCost, wait, rest } from './game-turns.ts';
+import { checkGameOver } from './game-rules.ts';
+import { descend } from './game-floors.ts';
+import { pickupItem, useItem, dropItem } from './game-items.ts';
+import { choosePerk } from './game-progression.ts';
+import { useAbility } from './game-classes.ts';
+import { exploreFov } from './game-fov.ts';
+import { getFeature, isBlocking, bumpFeature, closeDoor } from './game-features.ts';
+import { enterTile, search } from './game-traps.ts';
+import { fireAt } from './game-ranged.ts';
+import type { ActionResult, Actor, DirectionVector, GameState } from './game-constants.ts';
+import type { TargetAction } from './game-ranged.ts';
+
+/**
+ * A player action (see playTurn)
+ */
+export interface PlayerAction extends TargetAction {
+  type: string;       // One of ACTIONS
+  direction?: string; // Move, ability and door direction
+  perk?: string;      // Perk to take
+}
+
+/**
+ * Checks the corner-cutting rules of a diagonal step (attacks included):
+ * both tiles beside the step must be open, so nothing squeezes past a wall
+ * corner or a closed door, and doorways are only entered and left straight
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Moving actor
+ * @param {Object} vector - Diagonal direction vector
+ * @returns {boolean} True if the diagonal step is allowed
+ */
+function canStepDiagonally(gameState: GameState, actor: Actor, vector: DirectionVector): boolean {
+  const blocks = (x: number, y: number) => {
+    const feature = getFeature(gameState, x, y);
+    return gameState.map.map[x]?.[y] !== 0 || (feature && isBlocking(feature));
+  };
+  const isDoorway = (x: number, y: number) => {
+    const feature = getFeature(gameState, x, y);
+    return !!feature && (feature.type === FEATURE_TYPES.DOOR || feature.type === FEATURE_TYPES.LOCKED_DOOR);
+  };
+
+  return !blocks(actor.x + vector.x, actor.y) && !blocks(actor.x, actor.y + vector.y)
+    && !isDoorway(actor.x, actor.y) && !isDoorway(actor.x + vector.x, actor.y + vector.y);
+}
 
 /**
  * Moves an actor in a given direction
  * @param {GameState} gameState - Current game state
  * @param {string} actorId - ID of the actor to move (or 'player' for the main player)
- * @param {string} direction - Direction to move
+ * @param {string} direction - Direction to move (one of DIRECTIONS, diagonals included)
  * @returns {Object} Result with success flag and updated game state
  */
-export function moveActor(gameState, actorId, direction) {
+export function moveActor(gameState: GameState, actorId: string, direction: string | undefined): ActionResult {
   let actor;
 
   // Find the actor
@@ -33,42 +80,31 @@ export function moveActor(gameState, actorId, direction) {
   }
 
   // Calculate new position
-  let newX = actor.x;
-  let newY = actor.y;
-
-  switch (direction) {
-    case DIRECTIONS.UP:
-      newY--;
-      break;
-    case DIRECTIONS.DOWN:
-      newY++;
-      break;
-    case DIRECTIONS.LEFT:
-      newX--;
-      break;
-    case DIRECTIONS.RIGHT:
-      newX++;
-      break;
-    default:
-      return { success: false, error: 'Invalid direction' };
+  const vector = MOVE_VECTORS.find(d => d.direction === direction);
+  if (!vector) {
+    return { success: false, error: 'Invalid direction' };
   }
+  const newX = actor.x + vector.x;
+  const newY = actor.y + vector.y;
 
   // Check bounds
   if (newX < 0 || newX >= GRID_WIDTH || newY < 0 || newY >= GRID_HEIGHT) {
     return { success: false, error: 'Out of bounds' };
   }
 
-  // Check for walls (using the map from game state)
-  // Assuming map is a 2D array where 0 is floor and 1 is wall, or similar ROT.js structure
-  // If map is ROT.js map, we might need to check how it's stored.
-  // Based on game-init.ts, _map.map[x][y] stores the value.
-  // Let's assume 0 is empty/floor.
-  if (gameState.map.map[newX][newY] !== 0) {
-    return { success: false, error: 'Blocked by wall' };
+  if (vector.x !== 0 && vector.y !== 0 && !canStepDiagonally(gameState, actor, vector)) {
+    return { success: false, error: 'Cannot move diagonally there' };
+  }
+
+  // Closed doors, locks and secret walls: walking into them is the move
+  const feature = getFeature(gameState, newX, newY);
+  if (feature && isBlocking(feature)) {
+    return bumpFeature(gameState, actor, newX, newY);
   }
 
-  if (gameState.lastMove && +new Date() - gameState.lastMove < 1000) {
-    return { success: false, error: 'TOO_FAST' };
+  // Check for walls (0 is floor)
+  if (gameState.map.map[newX]![newY] !== 0) {
+    return { success: false, error: 'Blocked by wall' };
   }
 
   // Check for other actors
@@ -76,9 +112,18 @@ export function moveActor(gameState, actorId, direction) {
   const targetActor = gameState.actorMap[targetKey];
 
   if (targetActor) {
-    // Combat logic could go here
-    // For now, just block movement
-    return { success: false, error: 'Blocked by actor' };
+    if (!canAttack(actor, targetActor)) {
+      return { success: false, error: 'Blocked by actor' };
+    }
+
+    // Bump-to-attack: the actor stays in place and hits the target
+    const attack = attackActor(gameState, actor, targetActor);
+
+    return {
+      success: true,
+      attack,
+      gameState: gameState
+    };
   }
 
   // Move the actor
@@ -90,7 +135,9 @@ export function moveActor(gameState, actorId, direction) {
   actor.y = newY;
 
   gameState.actorMap[targetKey] = actor;
-  gameState.lastMove = +new Date();
+
+  // Traps and hazards under the new tile
+  enterTile(gameState, actor);
 
   return {
     success: true,
@@ -99,13 +146,12 @@ export function moveActor(gameState, actorId, direction) {
 }
 
 /**
- * Changes player direction (which triggers a move in turn-based)
+ * Checks that a player may act in this game
  * @param {GameState} gameState - Current game state
- * @param {string} direction - New direction ('UP', 'DOWN', 'LEFT', 'RIGHT')
  * @param {string} playerEoa - Player's Ethereum address
- * @returns {Object} Result with updated game state or error
+ * @returns {Object} Result with success flag or error
  */
-export function changeDirection(gameState, direction, playerEoa) {
+function validatePlayerAction(gameState: GameState, playerEoa: string): { success: true } | { success: false; error: string } {
   // Format player address to proper checksum format
   const formattedPlayerEoa = ethers.getAddress(playerEoa);
 
@@ -124,29 +170,104 @@ export function changeDirection(gameState, direction, playerEoa) {
     return { success: false, error: 'Only host can move' };
   }
 
-  return moveActor(gameState, 'player', direction);
+  return { success: true };
 }
 
 /**
- * Update game state (tick)
+ * Update game state, run after every accepted player action: turns pass
+ * (and enemies act) until the player has the energy to act again
  * @param {GameState} gameState - Current game state
  * @returns {Object} Result with updated game state
  */
-export function updateGame(gameState) {
+export function updateGame(gameState: GameState): ActionResult {
   if (gameState.isGameOver) {
     return { success: true, gameState };
   }
 
-  // In a turn-based roguelike, "updateGame" might handle enemy turns
-  // For now, we can just increment game time
+  // The player's action may already have ended the run
+  if (!checkGameOver(gameState)) {
+    advanceTime(gameState);
+  }
 
-  const updatedGameState = {
-    ...gameState,
-    gameTime: gameState.gameTime + 1
-  };
+  exploreFov(gameState);
 
   return {
     success: true,
-    gameState: updatedGameState
+    gameState: { ...gameState }
+  };
+}
+
+/**
+ * Plays one player action: the action spends the player's energy, then
+ * time runs until the player can act again (see game-turns.ts).
+ * Live games (rooms.ts) and replays (game-replay.ts) both go through here,
+ * so a replay runs exactly the same rules as the original game.
+ * @param {GameState} gameState - Current game state
+ * @param {Object} action - Player action ({ type: ACTIONS.*, direction?, itemId?, perk?, x?, y?, ability? })
+ * @param {string} playerEoa - Player's Ethereum address
+ * @returns {Object} Result with updated game state and the action performed
+ *                   ('move', 'attack', 'descend', 'pickup', ...), or error
+ */
+export function playTurn(gameState: GameState, action: PlayerAction, playerEoa: string): ActionResult & { action?: string } {
+  const check = validatePlayerAction(gameState, playerEoa);
+  if (!check.success) {
+    return check;
+  }
+
+  // Events are per action: drop the ones already broadcast
+  gameState.events = [];
+
+  let result;
+  switch (action.type) {
+    case ACTIONS.MOVE:
+      result = moveActor(gameState, 'player', action.direction);
+      break;
+    case ACTIONS.DESCEND:
+      result = descend(gameState);
+      break;
+    case ACTIONS.PICKUP:
+      result = pickupItem(gameState, action.itemId);
+      break;
+    case ACTIONS.USE_ITEM:
+      result = useItem(gameState, action.itemId);
+      break;
+    case ACTIONS.DROP:
+      result = dropItem(gameState, action.itemId);
+      break;
+    case ACTIONS.CHOOSE_PERK:
+      result = choosePerk(gameState, action.perk);
+      break;
+    case ACTIONS.USE_ABILITY:
+      result = useAbility(gameState, action.direction);
+      break;
+    case ACTIONS.CLOSE_DOOR:
+      result = closeDoor(gameState, action.direction);
+      break;
+    case ACTIONS.SEARCH:
+      result = search(gameState);
+      break;
+    case ACTIONS.TARGET:
+      result = fireAt(gameState, action);
+      break;
+    case ACTIONS.WAIT:
+      result = wait(gameState);
+      break;
+    case ACTIONS.REST:
+      result = rest(gameState);
+      break;
+    default:
+      return { success: false, error: `Unknown action: ${action.type}` };
+  }
+
+  if (!result.success) {
+    return result;
+  }
+
+  // Free actions (choosing a perk) leave the player ready: no time passes
+  spendEnergy(gameState.player, getActionCost(action.type));
+
+  return {
+    ...updateGame(result.gameState),
+    action: result.attack ? 'attack' : action.type
   };
 }
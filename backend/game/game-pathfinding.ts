@@ -0,0 +1,143 @@
+/**
+ * ============================================================================
+ * PATHFINDING
+ * ============================================================================
+ *
+ * Movement helpers for enemy behaviors (see game-behaviors.ts).
+ *
+ * - stepTowards() follows a ROT.js A* path (8-way) around walls and other
+ *   actors, through closed doors but not locked ones (see
+ *   game-features.ts); if no path exists, or its next step would cut a
+ *   corner (see moveActor), it falls back to the greedy step that
+ *   minimizes the squared distance to the goal
+ * - stepAway() takes the free step that maximizes the distance to a threat
+ * - wander() takes a random free step
+ *
+ * None of them walks into lava or a trap the player has found (see
+ * game-traps.ts). Each helper performs at most one moveActor() call that
+ * succeeds, so stepping into the player is still a bump-to-attack.
+ * ============================================================================
+ */
+
+import * as ROT from 'rot-js';
+import { MOVE_VECTORS } from './game-constants.ts';
+import { moveActor } from './game-movement.ts';
+import { shuffle } from './game-rng.ts';
+import { getFeature, isPathable, isHazard } from './game-features.ts';
+import type { ActionResult, Actor, DirectionVector, GameState, Position } from './game-constants.ts';
+
+// A moveActor result that succeeded
+type MoveResult = Extract<ActionResult, { success: true }>;
+
+/**
+ * Finds a path between two positions
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor that will walk the path
+ * @param {Position} goal - Destination
+ * @returns {Array<Position>} Steps after the actor's own tile, goal included
+ *                            (empty if the goal is unreachable)
+ */
+export function findPath(gameState: GameState, actor: Actor, goal: Position): Position[] {
+  const passable = (x: number, y: number) => {
+    if (!isPathable(gameState, x, y)) {
+      return false;
+    }
+    const occupant = gameState.actorMap[x + '_' + y];
+    return !occupant || occupant === actor;
+  };
+
+  const astar = new ROT.Path.AStar(goal.x, goal.y, passable, { topology: 8 });
+
+  const path: Position[] = [];
+  astar.compute(actor.x, actor.y, (x, y) => {
+    path.push({ x, y });
+  });
+
+  // Drop the actor's own tile
+  return path.slice(1);
+}
+
+/**
+ * Tries the given directions in order until one succeeds, never stepping
+ * into lava or a known trap
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to move
+ * @param {Array<Object>} directions - Direction vectors
+ * @returns {Object|null} The successful moveActor result, if any
+ */
+function tryDirections(gameState: GameState, actor: Actor, directions: DirectionVector[]): MoveResult | null {
+  for (const d of directions) {
+    const feature = getFeature(gameState, actor.x + d.x, actor.y + d.y);
+    if (feature && isHazard(feature)) {
+      continue;
+    }
+
+    const result = moveActor(gameState, actor.id, d.direction);
+    if (result.success) {
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Sorts the directions by the squared distance they leave to a point
+ * @param {Actor} actor - Actor to move
+ * @param {Position} point - Reference point
+ * @returns {Array<Object>} Direction vectors, closest first
+ */
+function directionsByDistance(actor: Actor, point: Position): DirectionVector[] {
+  const dx = point.x - actor.x;
+  const dy = point.y - actor.y;
+
+  return MOVE_VECTORS
+    .map(d => ({ ...d, dist: Math.pow(dx - d.x, 2) + Math.pow(dy - d.y, 2) }))
+    .sort((a, b) => a.dist - b.dist);
+}
+
+/**
+ * Takes one step along the shortest path to a goal
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to move
+ * @param {Position} goal - Destination
+ * @returns {Object|null} The successful moveActor result, if any
+ */
+export function stepTowards(gameState: GameState, actor: Actor, goal: Position): MoveResult | null {
+  const path = findPath(gameState, actor, goal);
+
+  if (path.length > 0) {
+    const next = path[0]!;
+    const vector = MOVE_VECTORS.find(d => d.x === next.x - actor.x && d.y === next.y - actor.y);
+    const result = vector && moveActor(gameState, actor.id, vector.direction);
+    if (result && result.success) {
+      return result;
+    }
+  }
+
+  return tryDirections(gameState, actor, directionsByDistance(actor, goal));
+}
+
+/**
+ * Takes one step away from a threat, never into it
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to move
+ * @param {Position} threat - Position to get away from
+ * @returns {Object|null} The successful moveActor result, if any
+ */
+export function stepAway(gameState: GameState, actor: Actor, threat: Position): MoveResult | null {
+  const directions = directionsByDistance(actor, threat)
+    .reverse()
+    .filter(d => actor.x + d.x !== threat.x || actor.y + d.y !== threat.y);
+
+  return tryDirections(gameState, actor, directions);
+}
+
+/**
+ * Takes one step in a random direction
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor to move
+ * @returns {Object|null} The successful moveActor result, if any
+ */
+export function wander(gameState: GameState, actor: Actor): MoveResult | null {
+  return tryDirections(gameState, actor, shuffle(gameState, MOVE_VECTORS));
+}
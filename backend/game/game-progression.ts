@@ -0,0 +1,123 @@
+/**
+ * ============================================================================
+ * EXPERIENCE & LEVELING
+ * ============================================================================
+ *
+ * The player earns experience for every enemy they kill (Actor.xp).
+ *
+ * LEVELING:
+ * - LEVEL_THRESHOLDS[n] is the total XP needed to reach level n + 1
+ * - Every level grants LEVEL_HP_BONUS max HP (and heals that much),
+ *   LEVEL_DAMAGE_BONUS flat damage and one perk to choose
+ * - A 'levelUp' event lists the perks on offer; the player answers with a
+ *   'choosePerk' message, which does not cost a turn
+ * ============================================================================
+ */
+
+import { LEVEL_THRESHOLDS, LEVEL_HP_BONUS, LEVEL_DAMAGE_BONUS } from './game-constants.ts';
+import { pushEvent } from './game-combat.ts';
+import type { ActionResult, GameState, Player } from './game-constants.ts';
+
+/**
+ * Perk definition: bonuses added to the player's base stats
+ */
+export interface PerkDefinition {
+  name: string;
+  maxHp?: number;
+  toHit?: number;
+  critChance?: number;
+  defense?: number;
+}
+
+/**
+ * Perk catalog, keyed by perk ID. Bonuses are added to the player's base stats.
+ */
+export const PERKS: Record<string, PerkDefinition> = {
+  toughness: { name: 'Toughness', maxHp: 10 },
+  precision: { name: 'Precision', toHit: 2 },
+  brutality: { name: 'Brutality', critChance: 0.1 },
+  iron_skin: { name: 'Iron skin', defense: 1 }
+};
+
+/**
+ * Returns the total XP needed for the next level
+ * @param {Actor} player - Player actor
+ * @returns {number|null} XP threshold, or null at the maximum level
+ */
+export function getNextLevelXp(player: Player): number | null {
+  return LEVEL_THRESHOLDS[player.level] ?? null;
+}
+
+/**
+ * Grants experience and levels the player up as many times as it covers
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} player - Player actor
+ * @param {number} xp - Experience gained
+ */
+export function gainXp(gameState: GameState, player: Player, xp: number) {
+  player.xp += xp;
+
+  let nextLevelXp = getNextLevelXp(player);
+  while (nextLevelXp !== null && player.xp >= nextLevelXp) {
+    player.level++;
+    player.maxHp += LEVEL_HP_BONUS;
+    player.hp += LEVEL_HP_BONUS;
+    player.damageBonus += LEVEL_DAMAGE_BONUS;
+    player.pendingPerks++;
+
+    pushEvent(gameState, {
+      type: 'levelUp',
+      actorId: player.id,
+      level: player.level,
+      maxHp: player.maxHp,
+      damageBonus: player.damageBonus,
+      pendingPerks: player.pendingPerks,
+      perkChoices: Object.keys(PERKS),
+      x: player.x,
+      y: player.y,
+      gameTime: gameState.gameTime
+    });
+
+    nextLevelXp = getNextLevelXp(player);
+  }
+}
+
+/**
+ * Spends a pending perk
+ * @param {GameState} gameState - Current game state
+ * @param {string} perkId - Perk to take (see PERKS)
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function choosePerk(gameState: GameState, perkId: string | undefined): ActionResult {
+  const player = gameState.player;
+
+  if (player.pendingPerks <= 0) {
+    return { success: false, error: 'No perk to choose' };
+  }
+
+  if (!perkId || !Object.hasOwn(PERKS, perkId)) {
+    return { success: false, error: 'Unknown perk' };
+  }
+  const perk = PERKS[perkId]!;
+
+  player.maxHp += perk.maxHp || 0;
+  player.hp += perk.maxHp || 0;
+  player.toHit += perk.toHit || 0;
+  player.critChance += perk.critChance || 0;
+  player.defense += perk.defense || 0;
+
+  player.perks.push(perkId);
+  player.pendingPerks--;
+
+  pushEvent(gameState, {
+    type: 'perk',
+    actorId: player.id,
+    perk: perkId,
+    pendingPerks: player.pendingPerks,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+
+  return { success: true, gameState };
+}
@@ -0,0 +1,232 @@
+/**
+ * ============================================================================
+ * RANGED ATTACKS
+ * ============================================================================
+ *
+ * The 'target' action shoots at a tile instead of bumping into an enemy.
+ *
+ * SOURCES (payload field, in order of precedence):
+ * - itemId  - A carried wand: its damage always hits and its status effect
+ *             (if any) lands on survivors. One charge per shot; an empty wand
+ *             is used up
+ * - ability - The class ability, if it can be aimed (the mage's firebolt).
+ *             Always hits, then the ability goes on cooldown
+ * - neither - The equipped bow: a normal attack roll with the bow's
+ *             rangedDamage instead of its melee damage
+ *
+ * CHECKS:
+ * The target tile must be within the source's range (Chebyshev distance)
+ * and in the player's field of view, and the straight line to it
+ * (Bresenham) must not cross a wall or a closed door. The projectile stops
+ * at the first actor on the line, so an enemy in front shields the ones
+ * behind it. Shooting at an empty tile is allowed and still costs the shot.
+ *
+ * Every shot pushes a 'projectile' event with the tiles it flew over, before
+ * the attack event of whatever it hit.
+ * ============================================================================
+ */
+
+import { ITEM_TYPES, PLAYER_SIGHT } from './game-constants.ts';
+import { attackActor, canAttack, pushEvent } from './game-combat.ts';
+import { ITEMS, findInventoryItem, removeFromInventory } from './game-items.ts';
+import { getLoadout } from './game-equipment.ts';
+import { CLASSES } from './game-classes.ts';
+import { canSee } from './game-fov.ts';
+import { getFeature, isBlocking } from './game-features.ts';
+import { applyEffect } from './game-effects.ts';
+import type { ActionResult, AttackEvent, GameState, Item, Player, Position } from './game-constants.ts';
+import type { ClassAbility } from './game-classes.ts';
+
+/**
+ * Target action payload (see SOURCES above)
+ */
+export interface TargetAction {
+  x?: number;        // Target tile
+  y?: number;
+  itemId?: string;   // Wand to shoot with (also the item of other actions)
+  ability?: boolean; // Aim the class ability
+}
+
+/**
+ * What the player is shooting with (see getRangedSource)
+ */
+interface RangedSource {
+  range: number;        // Reach (Chebyshev)
+  projectile?: string;  // Projectile drawn by clients
+  dice?: string;        // Damage dice that always hit (wands, abilities)
+  weaponDice?: string;  // Damage dice of a normal attack roll (bows)
+  item?: Item;          // Wand shot with
+  ability?: ClassAbility; // Ability aimed
+}
+
+/**
+ * Works out what the player is shooting with
+ * @param {Actor} player - Player actor
+ * @param {Object} action - Target action ({ itemId?, ability? })
+ * @returns {Object} Source ({ range, projectile, dice?, weaponDice?, item?, ability? }) or { error }
+ */
+function getRangedSource(player: Player, action: TargetAction): RangedSource | { error: string } {
+  if (action.itemId !== undefined) {
+    const item = findInventoryItem(player, action.itemId);
+    if (!item) {
+      return { error: 'Item not in inventory' };
+    }
+    const definition = ITEMS[item.kind]!;
+    if (definition.type !== ITEM_TYPES.WAND) {
+      return { error: 'That item cannot be aimed' };
+    }
+    return { item, range: definition.range!, dice: definition.damage, projectile: definition.projectile };
+  }
+
+  if (action.ability) {
+    const ability = CLASSES[player.characterClass]!.ability;
+    if (!ability.range) {
+      return { error: `${ability.name} cannot be aimed` };
+    }
+    if (player.abilityCooldown > 0) {
+      return { error: `${ability.name} is not ready` };
+    }
+    return { ability, range: ability.range, dice: ability.damage, projectile: ability.projectile };
+  }
+
+  const weapon = getLoadout(player).weapon;
+  const definition = weapon && ITEMS[weapon.kind];
+  if (!definition || !definition.range) {
+    return { error: 'No ranged weapon equipped' };
+  }
+  return { range: definition.range, weaponDice: definition.rangedDamage, projectile: definition.projectile };
+}
+
+/**
+ * Lists the tiles on the straight line between two positions (Bresenham)
+ * @param {Position} from - Start position (not included)
+ * @param {Position} to - End position (included)
+ * @returns {Array<Position>} Tiles in flight order
+ */
+export function lineTiles(from: Position, to: Position): Position[] {
+  const dx = Math.abs(to.x - from.x);
+  const dy = Math.abs(to.y - from.y);
+  const sx = from.x < to.x ? 1 : -1;
+  const sy = from.y < to.y ? 1 : -1;
+
+  const tiles = [];
+  let x = from.x;
+  let y = from.y;
+  let error = dx - dy;
+  while (x !== to.x || y !== to.y) {
+    const error2 = 2 * error;
+    if (error2 > -dy) {
+      error -= dy;
+      x += sx;
+    }
+    if (error2 < dx) {
+      error += dx;
+      y += sy;
+    }
+    tiles.push({ x, y });
+  }
+  return tiles;
+}
+
+/**
+ * Traces a projectile's flight: it stops at the first actor on the line
+ * @param {GameState} gameState - Current game state
+ * @param {Position} from - Shooter position
+ * @param {Position} to - Target tile
+ * @returns {Array<Position>|null} Tiles flown over, or null if a wall or closed door is in the way
+ */
+export function traceProjectile(gameState: GameState, from: Position, to: Position): Position[] | null {
+  const map = gameState.map;
+  const path = [];
+
+  for (const tile of lineTiles(from, to)) {
+    const feature = getFeature(gameState, tile.x, tile.y);
+    if (map.map[tile.x]?.[tile.y] !== 0 || (feature && isBlocking(feature))) {
+      return null;
+    }
+    path.push(tile);
+    if (gameState.actorMap[tile.x + '_' + tile.y]) {
+      break;
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Shoots at a tile with a bow, a wand or an aimed ability
+ * @param {GameState} gameState - Current game state
+ * @param {Object} action - Target action ({ x, y, itemId?, ability? })
+ * @returns {Object} Result with success flag, updated game state and the attack (if anything was hit)
+ */
+export function fireAt(gameState: GameState, action: TargetAction): ActionResult {
+  const player = gameState.player;
+  if (action.x === undefined || action.y === undefined) {
+    return { success: false, error: 'Target is required' };
+  }
+  const target = { x: action.x, y: action.y };
+
+  if (target.x === player.x && target.y === player.y) {
+    return { success: false, error: 'Cannot target yourself' };
+  }
+
+  const source = getRangedSource(player, action);
+  if ('error' in source) {
+    return { success: false, error: source.error };
+  }
+
+  if (Math.max(Math.abs(target.x - player.x), Math.abs(target.y - player.y)) > source.range) {
+    return { success: false, error: 'Target out of range' };
+  }
+
+  if (!canSee(gameState, player, target, PLAYER_SIGHT)) {
+    return { success: false, error: 'Target not in view' };
+  }
+
+  const path = traceProjectile(gameState, player, target);
+  if (!path) {
+    return { success: false, error: 'No line of fire' };
+  }
+
+  const end = path[path.length - 1]!;
+  pushEvent(gameState, {
+    type: 'projectile',
+    projectile: source.projectile,
+    actorId: player.id,
+    itemId: source.item ? source.item.id : null,
+    fromX: player.x,
+    fromY: player.y,
+    path,
+    x: end.x,
+    y: end.y,
+    gameTime: gameState.gameTime
+  });
+
+  const defender = gameState.actorMap[end.x + '_' + end.y];
+  let attack: AttackEvent | undefined;
+  if (defender && canAttack(player, defender)) {
+    attack = attackActor(gameState, player, defender, {
+      dice: source.dice,
+      weaponDice: source.weaponDice,
+      ranged: true
+    });
+
+    const definition = source.item && ITEMS[source.item.kind];
+    if (definition && definition.status && !attack.killed) {
+      applyEffect(gameState, defender, definition.status, definition.turns!);
+    }
+  }
+
+  if (source.item) {
+    source.item.charges = (source.item.charges ?? 0) - 1;
+    if (source.item.charges <= 0) {
+      removeFromInventory(player, source.item);
+    }
+  }
+
+  if (source.ability) {
+    player.abilityCooldown = source.ability.cooldown;
+  }
+
+  return { success: true, gameState, attack };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { createGame } from './game-init.ts';
+import { playTurn } from './game-movement.ts';
+import { hashGameState } from './game-format.ts';
+import { createSeedCommitment, deriveSeed } from './game-seed.ts';
+import { replayGame, verifySessionReplay } from './game-replay.ts';
+import { ACTIONS, DIRECTIONS } from './game-constants.ts';
+import type { RecordedMove } from './game-replay.ts';
+
+const PLAYER_EOA = '0x1111111111111111111111111111111111111111';
+const PLAYER_ENTROPY = 'player entropy';
+const NONCE = 1700000000000;
+
+// Plays a run the way the server does, recording the accepted moves
+function playRun(seed: number) {
+  const gameState = createGame(PLAYER_EOA, { seed });
+  const directions = Object.values(DIRECTIONS);
+
+  const moves: RecordedMove[] = [];
+  for (let i = 0; i < 60 && !gameState.isGameOver; i++) {
+    const direction = directions[(i * 7) % directions.length]!;
+    if (playTurn(gameState, { type: ACTIONS.MOVE, direction }, PLAYER_EOA).success) {
+      moves.push({ moveNumber: moves.length + 1, type: ACTIONS.MOVE, direction, stateHash: hashGameState(gameState) });
+    }
+  }
+
+  return { gameState, moves };
+}
+
+describe('replayGame', () => {
+  test('replays a recorded run to the same final state', () => {
+    const { gameState, moves } = playRun(42);
+    expect(moves.length).toBeGreaterThan(0);
+
+    const replay = replayGame({ playerEoa: PLAYER_EOA, seed: 42, moves });
+
+    expect(replay.success).toBe(true);
+    expect(hashGameState(replay.gameState)).toBe(hashGameState(gameState));
+  });
+
+  test('replays moves in moveNumber order', () => {
+    const { gameState, moves } = playRun(42);
+
+    const replay = replayGame({ playerEoa: PLAYER_EOA, seed: 42, moves: [...moves].reverse() });
+
+    expect(replay.success).toBe(true);
+    expect(hashGameState(replay.gameState)).toBe(hashGameState(gameState));
+  });
+
+  test('stops at the first move whose recorded state hash differs', () => {
+    const { moves } = playRun(42);
+    const tampered = moves.map(move => move.moveNumber === 2 ? { ...move, stateHash: moves[0]!.stateHash } : move);
+
+    const replay = replayGame({ playerEoa: PLAYER_EOA, seed: 42, moves: tampered });
+
+    expect(replay.success).toBe(false);
+    expect(replay.success === false && replay.error).toBe('State diverged after move #2');
+  });
+
+  test('does not match a run recorded with another seed', () => {
+    const { moves } = playRun(42);
+
+    expect(replayGame({ playerEoa: PLAYER_EOA, seed: 43, moves }).success).toBe(false);
+  });
+});
+
+describe('verifySessionReplay', () => {
+  // Final session data of a run played with a committed seed
+  function closedSession() {
+    const { serverSeed, commitment } = createSeedCommitment();
+    const seed = deriveSeed(serverSeed, PLAYER_ENTROPY, NONCE);
+    const { gameState, moves } = playRun(seed);
+
+    return {
+      winner: null,
+      endCondition: gameState.endCondition,
+      gameTime: gameState.gameTime,
+      finalScores: { level: gameState.player.level },
+      seed: { commitment, serverSeed, playerEntropy: PLAYER_ENTROPY, nonce: NONCE, randomSeed: seed },
+      players: { player1: { address: PLAYER_EOA } },
+      moves
+    };
+  }
+
+  test('accepts the outcome the rules produce', () => {
+    const report = verifySessionReplay(closedSession());
+
+    expect(report.errors).toEqual([]);
+    expect(report.success).toBe(true);
+  });
+
+  test('rejects a recorded outcome the moves do not lead to', () => {
+    const sessionData = closedSession();
+    const report = verifySessionReplay({ ...sessionData, gameTime: sessionData.gameTime + 1 });
+
+    expect(report.success).toBe(false);
+  });
+});
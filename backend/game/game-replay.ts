@@ -0,0 +1,207 @@
+/**
+ * ============================================================================
+ * DETERMINISTIC REPLAY
+ * ============================================================================
+ *
+ * Re-runs a closed game from its seed and ordered move log to check that
+ * the outcome written into the app session is the one the rules produce.
+ *
+ * FLOW:
+ * 1. Verify the seed reveal against its commitment (game-seed.ts)
+ * 2. createGame() with the revealed seed and the recorded character class
+ * 3. playTurn() for every recorded move, in moveNumber order, checking
+ *    the recorded stateHash after each one
+ * 4. Compare winner, endCondition and gameTime with the recorded result
+ *
+ * Replays are deterministic because every roll comes from the game's own
+ * RNG (game-rng.ts). The CLI entry point lives in replay.ts.
+ * ============================================================================
+ */
+
+import { ethers } from 'ethers';
+import { ACTIONS } from './game-constants.ts';
+import { createGame } from './game-init.ts';
+import { playTurn } from './game-movement.ts';
+import { verifySeedReveal } from './game-seed.ts';
+import { hashGameState } from './game-format.ts';
+import type { GameState } from './game-constants.ts';
+import type { PlayerAction } from './game-movement.ts';
+import type { SeedReveal } from './game-seed.ts';
+
+/**
+ * A move as recorded in the session data
+ */
+export interface RecordedMove {
+  moveNumber: number;              // Position in the move log
+  type?: string;                   // One of ACTIONS (moves only in older logs)
+  direction?: string;              // Move direction
+  params?: Partial<PlayerAction>;  // Other action fields
+  stateHash?: string;              // hashGameState after the move
+}
+
+/**
+ * Replay parameters (see replayGame)
+ */
+export interface ReplayParams {
+  playerEoa: string;       // Player's Ethereum address
+  seed: number;            // Run seed
+  characterClass?: string; // Player's class
+  dungeonType?: string;    // Layout family of the run
+  moves: RecordedMove[];   // Recorded moves
+}
+
+/**
+ * Result of replayGame: the final game state, or the state the replay stopped at
+ */
+export type ReplayResult =
+  | { success: true; gameState: GameState }
+  | { success: false; error: string; gameState: GameState };
+
+/**
+ * The parts of a closed session's final session_data a replay reads
+ */
+export interface ReplaySessionData {
+  appSessionId?: string;
+  winner?: string | null;
+  endCondition?: string | null;
+  gameTime?: number;
+  finalScores?: { level?: number };
+  seed?: SeedReveal;
+  players?: { player1?: { address?: string } };
+  characterClass?: string;
+  dungeonType?: string;
+  moves?: RecordedMove[];
+}
+
+/**
+ * Outcome of a game: as recorded, or as replayed
+ */
+interface Outcome {
+  winner: string | null;
+  endCondition: string | null;
+  gameTime: number | null;
+  level: number | null;
+  isGameOver?: boolean;
+}
+
+/**
+ * Result of verifySessionReplay
+ */
+export interface ReplayReport {
+  success: boolean;
+  seed: number | null;
+  recorded: Outcome;
+  replayed: Outcome | null;
+  errors: string[];
+}
+
+/**
+ * Replays a game from a seed and a move log
+ * @param {ReplayParams} params - Replay parameters
+ * @returns {ReplayResult} Result with success flag, final game state and any error
+ */
+export function replayGame({ playerEoa, seed, characterClass, dungeonType, moves }: ReplayParams): ReplayResult {
+  let gameState = createGame(playerEoa, { seed, characterClass, dungeonType });
+
+  const ordered = [...moves].sort((a, b) => a.moveNumber - b.moveNumber);
+
+  for (const move of ordered) {
+    // Logs recorded before multi-floor dungeons only contain moves
+    const action: PlayerAction = { ...move.params, type: move.type || ACTIONS.MOVE, direction: move.direction };
+
+    const result = playTurn(gameState, action, playerEoa);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Move #${move.moveNumber} (${action.type} ${action.direction || ''}) rejected on replay: ${result.error}`,
+        gameState
+      };
+    }
+
+    gameState = result.gameState;
+
+    if (move.stateHash && hashGameState(gameState) !== move.stateHash) {
+      return {
+        success: false,
+        error: `State diverged after move #${move.moveNumber}`,
+        gameState
+      };
+    }
+  }
+
+  return { success: true, gameState };
+}
+
+/**
+ * Verifies a closed session's recorded outcome by replaying it
+ * @param {ReplaySessionData} sessionData - Final session_data written by closeAppSession
+ * @returns {ReplayReport} Verification report
+ */
+export function verifySessionReplay(sessionData: ReplaySessionData): ReplayReport {
+  const report: ReplayReport = {
+    success: false,
+    seed: null,
+    recorded: {
+      winner: sessionData.winner || null,
+      endCondition: sessionData.endCondition || null,
+      gameTime: sessionData.gameTime ?? null,
+      level: sessionData.finalScores?.level ?? null
+    },
+    replayed: null,
+    errors: []
+  };
+
+  const seedCheck = verifySeedReveal(sessionData.seed);
+  if (!seedCheck.success) {
+    report.errors.push(seedCheck.error);
+    return report;
+  }
+  report.seed = seedCheck.seed;
+
+  const playerEoa = sessionData.players?.player1?.address;
+  if (!playerEoa) {
+    report.errors.push('Missing player address');
+    return report;
+  }
+
+  const replay = replayGame({
+    playerEoa,
+    seed: seedCheck.seed,
+    characterClass: sessionData.characterClass,
+    dungeonType: sessionData.dungeonType,
+    moves: sessionData.moves || []
+  });
+
+  const gameState = replay.gameState;
+  report.replayed = {
+    winner: gameState.winner === 'player1' ? ethers.getAddress(playerEoa) : null,
+    endCondition: gameState.endCondition,
+    gameTime: gameState.gameTime,
+    level: gameState.player.level,
+    isGameOver: gameState.isGameOver
+  };
+
+  if (!replay.success) {
+    report.errors.push(replay.error);
+    return report;
+  }
+
+  if (report.replayed.winner !== report.recorded.winner) {
+    report.errors.push(`Winner mismatch (recorded ${report.recorded.winner}, replayed ${report.replayed.winner})`);
+  }
+
+  if (report.recorded.endCondition && report.replayed.endCondition !== report.recorded.endCondition) {
+    report.errors.push(`End condition mismatch (recorded ${report.recorded.endCondition}, replayed ${report.replayed.endCondition})`);
+  }
+
+  if (report.recorded.gameTime !== null && report.replayed.gameTime !== report.recorded.gameTime) {
+    report.errors.push(`Game time mismatch (recorded ${report.recorded.gameTime}, replayed ${report.replayed.gameTime})`);
+  }
+
+  if (report.recorded.level !== null && report.replayed.level !== report.recorded.level) {
+    report.errors.push(`Level mismatch (recorded ${report.recorded.level}, replayed ${report.replayed.level})`);
+  }
+
+  report.success = report.errors.length === 0;
+  return report;
+}
@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * PER-GAME RANDOM NUMBER GENERATION
+ * ============================================================================
+ *
+ * Every game owns its own seeded ROT.js RNG instance instead of sharing the
+ * process-wide ROT.RNG, so concurrent rooms never consume each other's
+ * random draws and each room gets its own dungeon.
+ *
+ * STATE:
+ * - gameState.rng         - Live RNG instance (not serialized)
+ * - gameState.randomSeed  - Seed the run started from
+ * - gameState.randomState - RNG state after the latest roll
+ *
+ * randomState is refreshed after every roll, so a serialized game can be
+ * restored with restoreRng() and continue with identical outcomes.
+ * ============================================================================
+ */
+
+import * as ROT from 'rot-js';
+import { randomInt } from 'crypto';
+import type { GameState, RngHolder } from './game-constants.ts';
+
+/**
+ * Generates a fresh random seed
+ * @returns {number} Seed suitable for ROT.RNG
+ */
+export function generateSeed() {
+  return randomInt(1, 2 ** 31);
+}
+
+/**
+ * Derives a sub-seed (e.g. per dungeon floor) from a run seed
+ * @param {number} seed - Run seed
+ * @param {number} salt - Sub-stream identifier, such as the floor depth
+ * @returns {number} Seed suitable for ROT.RNG
+ */
+export function deriveSubSeed(seed: number, salt: number): number {
+  let h = Math.imul(seed ^ Math.imul(salt, 0x9e3779b1), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return ((h >>> 0) % (2 ** 31 - 1)) + 1;
+}
+
+/**
+ * Creates a new RNG instance, independent from the global ROT.RNG
+ * @param {number} seed - Seed for the generator
+ * @returns {Object} ROT.js RNG instance
+ */
+export function createRng(seed: number) {
+  return ROT.RNG.clone().setSeed(seed);
+}
+
+/**
+ * Rebuilds the RNG instance of a game from its stored randomState
+ * @param {GameState} gameState - Game state (e.g. freshly deserialized)
+ * @returns {Object} ROT.js RNG instance
+ */
+export function restoreRng(gameState: GameState) {
+  gameState.rng = ROT.RNG.clone().setState(gameState.randomState);
+  return gameState.rng;
+}
+
+/**
+ * Returns a uniform random number in [0, 1) from the game's RNG
+ * @param {GameState} gameState - Current game state
+ * @returns {number} Random number
+ */
+export function random(gameState: RngHolder): number {
+  const value = gameState.rng.getUniform();
+  gameState.randomState = gameState.rng.getState();
+  return value;
+}
+
+/**
+ * Returns a random integer in [0, max)
+ * @param {GameState} gameState - Current game state
+ * @param {number} max - Exclusive upper bound
+ * @returns {number} Random integer
+ */
+export function randomIndex(gameState: RngHolder, max: number): number {
+  return Math.floor(random(gameState) * max);
+}
+
+/**
+ * Picks an entry from a weighted table
+ * @param {GameState} gameState - Current game state
+ * @param {Array<Object>} entries - Entries with a numeric `weight`
+ * @returns {Object} The chosen entry
+ */
+export function pickWeighted<T extends { weight: number }>(gameState: RngHolder, entries: T[]): T {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random(gameState) * total;
+
+  for (const entry of entries) {
+    roll -= entry.weight;
+    if (roll < 0) {
+      return entry;
+    }
+  }
+
+  return entries[entries.length - 1]!;
+}
+
+/**
+ * Returns a shuffled copy of an array (Fisher-Yates)
+ * @param {GameState} gameState - Current game state
+ * @param {Array} array - Array to shuffle
+ * @returns {Array} New shuffled array
+ */
+export function shuffle<T>(gameState: RngHolder, array: T[]): T[] {
+  const result = array.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomIndex(gameState, i + 1);
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+/**
+ * Runs ROT.js code that draws from the global ROT.RNG (e.g. map generators)
+ * against the game's own RNG stream. The global state is restored afterwards.
+ * @param {GameState} gameState - Current game state
+ * @param {Function} fn - Synchronous callback
+ * @returns {*} Whatever the callback returns
+ */
+export function withGameRng<T>(gameState: RngHolder, fn: () => T): T {
+  const globalState = ROT.RNG.getState();
+  ROT.RNG.setState(gameState.rng.getState());
+
+  try {
+    return fn();
+  } finally {
+    gameState.rng.setState(ROT.RNG.getState());
+    gameState.randomState = gameState.rng.getState();
+    ROT.RNG.setState(globalState);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * ============================================================================
+ * WIN / LOSS RULES
+ * ============================================================================
+ *
+ * End-of-game detection for a dungeon run.
+ *
+ * END CONDITIONS:
+ * - Player HP reaches zero      → loss (winner stays null)
+ * - Last floor cleared of enemies → win (winner = 'player1')
+ * - Player stands on the exit (last floor) → win (winner = 'player1'); the
+ *   exit stays sealed while the boss lives (see game-bosses.ts), and once
+ *   it is dead the run ends as boss_defeated
+ *
+ * The detection loop in websocket/handlers/game.ts watches isGameOver and
+ * settles the app session with the winner and endCondition set here.
+ * ============================================================================
+ */
+
+import { END_CONDITIONS } from './game-constants.ts';
+import type { GameState } from './game-constants.ts';
+
+/**
+ * Ends the game with the given outcome
+ * @param {GameState} gameState - Current game state
+ * @param {string|null} winner - Winner ('player1' or null)
+ * @param {string} endCondition - One of END_CONDITIONS
+ */
+function endGame(gameState: GameState, winner: string | null, endCondition: string) {
+  gameState.isGameOver = true;
+  gameState.winner = winner;
+  gameState.endCondition = endCondition;
+
+  if (!gameState.events) {
+    gameState.events = [];
+  }
+  gameState.events.push({
+    type: 'gameOver',
+    winner,
+    endCondition,
+    gameTime: gameState.gameTime
+  });
+}
+
+/**
+ * Checks the end conditions and marks the game as over if one is met
+ * @param {GameState} gameState - Current game state
+ * @returns {boolean} True if the game is over
+ */
+export function checkGameOver(gameState: GameState): boolean {
+  if (gameState.isGameOver) {
+    return true;
+  }
+
+  const player = gameState.player;
+
+  if (player.hp <= 0) {
+    endGame(gameState, null, END_CONDITIONS.PLAYER_DIED);
+    return true;
+  }
+
+  const isLastFloor = gameState.depth === gameState.maxDepth;
+  if (isLastFloor && !gameState.actorList.some(actor => !actor.isPlayer)) {
+    endGame(gameState, 'player1', END_CONDITIONS.ENEMIES_CLEARED);
+    return true;
+  }
+
+  const bossAlive = !!gameState.bossId && gameState.actorList.some(actor => actor.id === gameState.bossId);
+  if (gameState.exit && !bossAlive && player.x === gameState.exit.x && player.y === gameState.exit.y) {
+    endGame(gameState, 'player1', gameState.bossId ? END_CONDITIONS.BOSS_DEFEATED : END_CONDITIONS.EXIT_REACHED);
+    return true;
+  }
+
+  return false;
+}
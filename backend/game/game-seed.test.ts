@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { ethers } from 'ethers';
+import { createSeedCommitment, deriveSeed, verifySeedReveal } from './game-seed.ts';
+
+const PLAYER_ENTROPY = 'player entropy';
+const NONCE = 1700000000000;
+
+// What closeAppSession reveals for a run played with the committed seed
+function honestReveal() {
+  const { serverSeed, commitment } = createSeedCommitment();
+  return {
+    commitment,
+    serverSeed,
+    playerEntropy: PLAYER_ENTROPY,
+    nonce: NONCE,
+    randomSeed: deriveSeed(serverSeed, PLAYER_ENTROPY, NONCE)
+  };
+}
+
+describe('createSeedCommitment', () => {
+  test('commits to the keccak256 of a fresh 32-byte server seed', () => {
+    const first = createSeedCommitment();
+    const second = createSeedCommitment();
+
+    expect(ethers.dataLength(first.serverSeed)).toBe(32);
+    expect(first.commitment).toBe(ethers.keccak256(first.serverSeed));
+    expect(second.serverSeed).not.toBe(first.serverSeed);
+  });
+});
+
+describe('deriveSeed', () => {
+  test('derives the same positive 31-bit seed from the same inputs', () => {
+    const { serverSeed } = createSeedCommitment();
+    const seed = deriveSeed(serverSeed, PLAYER_ENTROPY, NONCE);
+
+    expect(deriveSeed(serverSeed, PLAYER_ENTROPY, NONCE)).toBe(seed);
+    expect(seed).toBeGreaterThanOrEqual(1);
+    expect(seed).toBeLessThan(2 ** 31);
+  });
+
+  test('depends on the player entropy', () => {
+    const { serverSeed } = createSeedCommitment();
+
+    expect(deriveSeed(serverSeed, 'other entropy', NONCE)).not.toBe(deriveSeed(serverSeed, PLAYER_ENTROPY, NONCE));
+  });
+});
+
+describe('verifySeedReveal', () => {
+  test('accepts the committed server seed and the seed derived from it', () => {
+    const reveal = honestReveal();
+
+    expect(verifySeedReveal(reveal)).toEqual({ success: true, seed: reveal.randomSeed });
+  });
+
+  test('rejects a server seed that does not match the commitment', () => {
+    const reveal = { ...honestReveal(), serverSeed: createSeedCommitment().serverSeed };
+
+    expect(verifySeedReveal(reveal).success).toBe(false);
+  });
+
+  test('rejects a run seed that was not derived from the revealed inputs', () => {
+    const reveal = honestReveal();
+
+    expect(verifySeedReveal({ ...reveal, randomSeed: reveal.randomSeed + 1 }).success).toBe(false);
+  });
+
+  test('rejects a missing reveal', () => {
+    expect(verifySeedReveal(null).success).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * SEED COMMIT-REVEAL
+ * ============================================================================
+ *
+ * Makes each run's dungeon seed verifiable after the fact.
+ *
+ * FLOW:
+ * 1. Server picks a secret serverSeed and publishes keccak256(serverSeed)
+ *    as seedCommitment in the initial app session data
+ * 2. Player supplies their own entropy when starting the game
+ * 3. Run seed = keccak256(serverSeed, playerEntropy, session nonce)
+ * 4. serverSeed is revealed in the final session data on close
+ *
+ * Anyone can then check that keccak256(serverSeed) matches the commitment
+ * and re-derive the seed, so the server could not choose the dungeon after
+ * seeing the player's entropy.
+ * ============================================================================
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Seed data revealed in the final session data
+ */
+export interface SeedReveal {
+  commitment: string;    // Published commitment
+  serverSeed: string;    // Revealed server seed
+  playerEntropy: string; // Player entropy
+  nonce: number;         // App session nonce
+  randomSeed: number;    // Seed the server claims to have used
+}
+
+/**
+ * Generates a new server seed and its commitment
+ * @returns {Object} { serverSeed, commitment }
+ */
+export function createSeedCommitment() {
+  const serverSeed = ethers.hexlify(ethers.randomBytes(32));
+  return {
+    serverSeed,
+    commitment: ethers.keccak256(serverSeed)
+  };
+}
+
+/**
+ * Derives the numeric run seed from the revealed inputs
+ * @param {string} serverSeed - Revealed 32-byte server seed (hex)
+ * @param {string} playerEntropy - Player-supplied entropy
+ * @param {number} nonce - App session nonce
+ * @returns {number} Seed for the game's RNG (1 .. 2^31-1)
+ */
+export function deriveSeed(serverSeed: string, playerEntropy: string | undefined, nonce: number): number {
+  const hash = ethers.solidityPackedKeccak256(
+    ['bytes32', 'string', 'uint256'],
+    [serverSeed, playerEntropy || '', BigInt(nonce)]
+  );
+
+  // ROT.RNG needs a positive seed, keep it within 31 bits
+  return (parseInt(hash.slice(2, 10), 16) % (2 ** 31 - 1)) + 1;
+}
+
+/**
+ * Verifies a revealed seed against its commitment
+ * @param {SeedReveal} [reveal] - Revealed seed data from the final session data
+ * @returns {Object} Result with success flag and optional error
+ */
+export function verifySeedReveal(reveal?: SeedReveal | null): { success: true; seed: number } | { success: false; error: string } {
+  if (!reveal || !reveal.serverSeed || !reveal.commitment) {
+    return { success: false, error: 'Missing seed reveal' };
+  }
+
+  if (ethers.keccak256(reveal.serverSeed) !== reveal.commitment) {
+    return { success: false, error: 'Server seed does not match commitment' };
+  }
+
+  const seed = deriveSeed(reveal.serverSeed, reveal.playerEntropy, reveal.nonce);
+  if (seed !== reveal.randomSeed) {
+    return { success: false, error: `Seed mismatch (derived ${seed}, recorded ${reveal.randomSeed})` };
+  }
+
+  return { success: true, seed };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { createGame } from './game-init.ts';
+import { bumpFeature } from './game-features.ts';
+import { createSync, formatSnapshot, formatDelta } from './game-sync.ts';
+import { FEATURE_TYPES, MOVE_VECTORS } from './game-constants.ts';
+
+const PLAYER_EOA = '0x1111111111111111111111111111111111111111';
+const ROOM_ID = 'room';
+
+describe('formatDelta', () => {
+  test('sends an explored wall that a found secret wall turned into floor', () => {
+    const gameState = createGame(PLAYER_EOA, { seed: 1 });
+    const player = gameState.player;
+
+    // Hide a secret wall in an explored wall next to the player
+    const wall = MOVE_VECTORS
+      .map(d => ({ x: player.x + d.x, y: player.y + d.y }))
+      .find(tile => gameState.map.map[tile.x]?.[tile.y] === 1 && gameState.explored[tile.x + '_' + tile.y]);
+    if (!wall) {
+      throw new Error('No explored wall next to the player');
+    }
+    gameState.features[wall.x + '_' + wall.y] = { type: FEATURE_TYPES.SECRET_WALL };
+
+    const sync = createSync();
+    const snapshot = formatSnapshot(sync, gameState, ROOM_ID);
+    expect(snapshot.map[wall.x]?.[wall.y]).toBe(1);
+
+    expect(bumpFeature(gameState, player, wall.x, wall.y).success).toBe(true);
+    const delta = formatDelta(sync, gameState, ROOM_ID);
+
+    expect(delta.map).toBeUndefined();
+    expect(delta.tiles).toContainEqual([wall.x, wall.y, 0]);
+  });
+
+  test('sends no tiles when nothing changed', () => {
+    const gameState = createGame(PLAYER_EOA, { seed: 1 });
+    const sync = createSync();
+    formatSnapshot(sync, gameState, ROOM_ID);
+
+    expect(formatDelta(sync, gameState, ROOM_ID).tiles).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * ============================================================================
+ * STATE SYNC
+ * ============================================================================
+ *
+ * Keeps clients in sync with a room's game without resending the whole
+ * state on every action.
+ *
+ * MESSAGES:
+ * - Snapshot ('game:started', 'room:state') - The full formatted state
+ *   (see game-format.ts), explored map included, tagged with the current
+ *   sequence number
+ * - Delta ('game:delta') - What changed since the previous message, tagged
+ *   with the next sequence number:
+ *   - actors.updated - Actors that came into view (complete) or changed
+ *                      (id plus the changed fields)
+ *   - actors.removed - IDs of actors that died or left the field of view
+ *   - tiles          - Tiles that changed as [x, y, tile]: newly explored
+ *                      ones, and explored ones that changed (a secret wall
+ *                      turning into floor); a new floor sends the whole
+ *                      explored map as `map` instead
+ *   - events         - Events of the action, always present
+ *   - any other top-level field of the snapshot, only when it changed
+ *
+ * A client that sees a gap in the sequence numbers sends 'resync' and gets a
+ * fresh snapshot. Every state change is broadcast as a delta as soon as it
+ * happens, so the latest message sent always matches the game state.
+ * ============================================================================
+ */
+
+import { formatGameState } from './game-format.ts';
+import type { GameView } from './game-format.ts';
+import type { Actor, GameState } from './game-constants.ts';
+
+// Snapshot fields that deltas carry in their own format
+const DELTA_FIELDS: string[] = ['roomId', 'actors', 'events', 'map'];
+
+/**
+ * Sync state of a room
+ */
+export interface SyncState {
+  seq: number;             // Sequence number of the latest delta
+  view: GameView | null;   // Copy of the state the clients last received
+}
+
+/**
+ * Changes since the previous message (see MESSAGES above)
+ */
+export interface GameDelta extends Omit<Partial<GameView>, 'actors'> {
+  roomId: string;
+  seq: number;
+  actors: { updated: Array<Partial<Actor>>; removed: string[] };
+  events: GameView['events'];
+  tiles?: Array<[number, number, number | null]>;
+}
+
+/**
+ * Creates the sync state of a room
+ * @returns {SyncState} Fresh sync state
+ */
+export function createSync(): SyncState {
+  return { seq: 0, view: null };
+}
+
+/**
+ * Copies a formatted state so later game updates don't change it
+ * @param {Object} view - Formatted game state
+ * @returns {Object} Deep copy
+ */
+function cloneView<T>(view: T): T {
+  return JSON.parse(JSON.stringify(view));
+}
+
+/**
+ * Lists the fields that differ between two objects
+ * @param {Object} before - Previous version
+ * @param {Object} after - Current version
+ * @returns {Object|null} Changed fields with their new values, null if none
+ */
+function diffFields<T extends object>(before: T, after: T): Partial<T> | null {
+  let changes: Partial<T> | null = null;
+  for (const key of Object.keys(after) as Array<keyof T>) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes = changes || {};
+      changes[key] = after[key];
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diffs the visible actors by ID
+ * @param {Array<Actor>} before - Actors the clients last received
+ * @param {Array<Actor>} after - Actors visible now
+ * @returns {Object} { updated, removed }
+ */
+function diffActors(before: Actor[], after: Actor[]): GameDelta['actors'] {
+  const previous = new Map(before.map(actor => [actor.id, actor]));
+  const updated: Array<Partial<Actor>> = [];
+
+  for (const actor of after) {
+    const old = previous.get(actor.id);
+    previous.delete(actor.id);
+
+    if (!old) {
+      updated.push(actor);
+      continue;
+    }
+
+    const changes = diffFields(old, actor);
+    if (changes) {
+      updated.push({ id: actor.id, ...changes });
+    }
+  }
+
+  return { updated, removed: [...previous.keys()] };
+}
+
+/**
+ * Lists the tiles that changed since the previous map
+ * @param {Array<Array<number|null>>} before - Explored map the clients have
+ * @param {Array<Array<number|null>>} after - Explored map now
+ * @returns {Array<Array<number>>} Changed tiles as [x, y, tile]
+ */
+function diffTiles(before: Array<Array<number | null>>, after: Array<Array<number | null>>): NonNullable<GameDelta['tiles']> {
+  const tiles: NonNullable<GameDelta['tiles']> = [];
+  after.forEach((column, x) => {
+    column.forEach((tile, y) => {
+      if (before[x]?.[y] !== tile) {
+        tiles.push([x, y, tile]);
+      }
+    });
+  });
+  return tiles;
+}
+
+/**
+ * Formats a full snapshot and makes it the baseline for the next delta
+ * @param {SyncState} sync - Room sync state
+ * @param {GameState} gameState - Current game state
+ * @param {string} roomId - Room ID
+ * @returns {Object} Formatted game state with its sequence number
+ */
+export function formatSnapshot(sync: SyncState, gameState: GameState, roomId: string) {
+  const view = formatGameState(gameState, roomId);
+  sync.view = cloneView(view);
+
+  return { ...view, seq: sync.seq };
+}
+
+/**
+ * Formats the changes since the previous snapshot or delta
+ * @param {SyncState} sync - Room sync state
+ * @param {GameState} gameState - Current game state
+ * @param {string} roomId - Room ID
+ * @returns {Object} Delta with its sequence number
+ */
+export function formatDelta(sync: SyncState, gameState: GameState, roomId: string): GameDelta {
+  const view = formatGameState(gameState, roomId);
+  const previous: Partial<GameView> & { actors: Actor[] } = sync.view || { actors: [] };
+
+  sync.seq++;
+  sync.view = cloneView(view);
+
+  const delta: GameDelta = {
+    roomId,
+    seq: sync.seq,
+    actors: diffActors(previous.actors, view.actors),
+    events: view.events
+  };
+
+  if (!previous.map || previous.depth !== view.depth) {
+    delta.map = view.map;
+  } else {
+    delta.tiles = diffTiles(previous.map, view.map);
+  }
+
+  for (const key of Object.keys(view) as Array<keyof GameView>) {
+    if (!DELTA_FIELDS.includes(key) && JSON.stringify(previous[key]) !== JSON.stringify(view[key])) {
+      Object.assign(delta, { [key]: view[key] });
+    }
+  }
+
+  return delta;
+}
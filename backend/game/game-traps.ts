@@ -0,0 +1,324 @@
+/**
+ * ============================================================================
+ * TRAPS & HAZARDS
+ * ============================================================================
+ *
+ * Traps and hazard tiles share gameState.features with the doors (see
+ * game-features.ts). moveActor() sets them off whenever an actor steps on
+ * one, player and enemies alike.
+ *
+ * TRAPS (feature type 'trap', kind in feature.trap):
+ * - spike      - Damages the actor that stepped on it
+ * - poison_gas - Damages and poisons every actor within the gas radius
+ * - teleport   - Sends the actor to a random tile (see teleportActor)
+ * - alarm      - Every enemy on the floor comes to look
+ * Most traps start hidden: clients only learn about a trap once it fires
+ * or the player finds it with 'search'. Traps fire every time. Enemies
+ * avoid the traps the player knows about, and fall into the others.
+ *
+ * HAZARDS:
+ * - lava  - Burns whoever steps in; enemies keep out
+ * - water - Wading in costs WATER_MOVE_COST extra energy
+ * Hazards come in pools. A lava pool never cuts a floor in two, so no tile
+ * ever requires crossing lava.
+ * ============================================================================
+ */
+
+import {
+  FEATURE_TYPES,
+  DIRECTION_VECTORS,
+  ENEMY_MEMORY_TURNS,
+  STATUS_EFFECTS,
+  TRAPS_BASE,
+  TRAPS_PER_DEPTH
+} from './game-constants.ts';
+import { random, randomIndex, pickWeighted } from './game-rng.ts';
+import { rollDice, killActor, pushEvent } from './game-combat.ts';
+import { getFeature, reachableTiles } from './game-features.ts';
+import { teleportActor } from './game-items.ts';
+import { spendEnergy } from './game-turns.ts';
+import { applyEffect } from './game-effects.ts';
+import type { ActionResult, Actor, Feature, FloorMap, GameEvent, GameState, Position, RngHolder } from './game-constants.ts';
+
+/**
+ * Trap definition
+ */
+export interface TrapDefinition {
+  name: string;
+  damage?: string; // Dice rolled against every victim
+  radius?: number; // Victims within this distance (Chebyshev), 0 if unset
+  status?: string; // Status effect put on survivors
+  turns?: number;  // Duration of that status effect
+  effect?: 'teleport' | 'alarm'; // What a trap without damage does
+}
+
+// Chance for a new trap to be hidden
+const TRAP_HIDDEN_CHANCE = 0.75;
+
+// Distance (Chebyshev) at which 'search' finds hidden traps
+const SEARCH_RADIUS = 2;
+
+// Hazard pools on each floor, and their size in tiles
+const HAZARD_POOLS = 2;
+const POOL_MIN_SIZE = 4;
+const POOL_MAX_SIZE = 10;
+
+// First depth with lava pools, and the chance for a pool to be lava there
+const LAVA_MIN_DEPTH = 3;
+const LAVA_CHANCE = 0.5;
+
+const LAVA_DAMAGE = '2d6';
+const WATER_MOVE_COST = 100;
+
+/**
+ * Trap catalog, keyed by kind
+ */
+export const TRAPS: Record<string, TrapDefinition> = {
+  spike: { name: 'Spike trap', damage: '2d4' },
+  poison_gas: { name: 'Poison gas trap', damage: 'd3', radius: 1, status: STATUS_EFFECTS.POISON, turns: 5 },
+  teleport: { name: 'Teleport trap', effect: 'teleport' },
+  alarm: { name: 'Alarm trap', effect: 'alarm' }
+};
+
+/**
+ * Traps set on the floors, with the first depth they can appear on
+ */
+export const TRAP_TABLE = [
+  { kind: 'spike', weight: 10, minDepth: 1 },
+  { kind: 'alarm', weight: 4, minDepth: 1 },
+  { kind: 'poison_gas', weight: 6, minDepth: 2 },
+  { kind: 'teleport', weight: 4, minDepth: 2 }
+];
+
+/**
+ * Sets off a trap under an actor
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor that stepped on the trap
+ * @param {Feature} feature - The trap
+ */
+function springTrap(gameState: GameState, actor: Actor, feature: Feature) {
+  const definition = TRAPS[feature.trap!]!;
+  const x = actor.x;
+  const y = actor.y;
+  const event: GameEvent = { type: 'trap', trap: feature.trap, actorId: actor.id, x, y, gameTime: gameState.gameTime };
+
+  feature.hidden = false;
+
+  if (definition.damage) {
+    const radius = definition.radius || 0;
+    const victims = gameState.actorList.filter(other =>
+      Math.max(Math.abs(other.x - x), Math.abs(other.y - y)) <= radius
+    );
+
+    event.hits = victims.map(victim => {
+      const damage = rollDice(gameState, definition.damage!).total;
+      victim.hp -= damage;
+      return { actorId: victim.id, damage, hp: victim.hp };
+    });
+    pushEvent(gameState, event);
+
+    for (const victim of victims) {
+      if (victim.hp <= 0) {
+        killActor(gameState, victim, null);
+      } else if (definition.status) {
+        applyEffect(gameState, victim, definition.status, definition.turns!);
+      }
+    }
+    return;
+  }
+
+  pushEvent(gameState, event);
+
+  if (definition.effect === 'teleport') {
+    teleportActor(gameState, actor);
+  } else if (definition.effect === 'alarm') {
+    for (const enemy of gameState.actorList) {
+      if (!enemy.isPlayer) {
+        enemy.lastSeen = { x, y };
+        enemy.alertTurns = ENEMY_MEMORY_TURNS;
+      }
+    }
+  }
+}
+
+/**
+ * Applies the trap or hazard on the tile an actor just stepped onto
+ * @param {GameState} gameState - Current game state
+ * @param {Actor} actor - Actor that moved
+ */
+export function enterTile(gameState: GameState, actor: Actor) {
+  const feature = getFeature(gameState, actor.x, actor.y);
+  if (!feature) {
+    return;
+  }
+
+  switch (feature.type) {
+    case FEATURE_TYPES.TRAP:
+      springTrap(gameState, actor, feature);
+      break;
+
+    case FEATURE_TYPES.LAVA: {
+      const damage = rollDice(gameState, LAVA_DAMAGE).total;
+      actor.hp -= damage;
+      pushEvent(gameState, {
+        type: 'hazard',
+        hazard: feature.type,
+        actorId: actor.id,
+        damage,
+        hp: actor.hp,
+        x: actor.x,
+        y: actor.y,
+        gameTime: gameState.gameTime
+      });
+      if (actor.hp <= 0) {
+        killActor(gameState, actor, null);
+      }
+      break;
+    }
+
+    case FEATURE_TYPES.WATER:
+      spendEnergy(actor, WATER_MOVE_COST);
+      break;
+  }
+}
+
+/**
+ * Searches the player's surroundings for hidden traps
+ * @param {GameState} gameState - Current game state
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function search(gameState: GameState): ActionResult {
+  const player = gameState.player;
+  let found = 0;
+
+  for (const [key, feature] of Object.entries(gameState.features || {})) {
+    if (feature.type !== FEATURE_TYPES.TRAP || !feature.hidden) {
+      continue;
+    }
+
+    const [x, y] = key.split('_').map(Number) as [number, number];
+    if (Math.max(Math.abs(x - player.x), Math.abs(y - player.y)) > SEARCH_RADIUS) {
+      continue;
+    }
+
+    feature.hidden = false;
+    found++;
+    pushEvent(gameState, { type: 'trapFound', trap: feature.trap, x, y, gameTime: gameState.gameTime });
+  }
+
+  pushEvent(gameState, { type: 'search', found, x: player.x, y: player.y, gameTime: gameState.gameTime });
+
+  return { success: true, gameState };
+}
+
+/**
+ * Grows a pool from a tile over free floor tiles
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {Object} map - Floor map
+ * @param {Object.<string, Feature>} features - Tile features
+ * @param {Position} origin - First tile of the pool
+ * @param {Set<string>} keep - Tiles the pool must leave free ("x_y")
+ * @returns {Array<Position>} Pool tiles
+ */
+function growPool(floorRng: RngHolder, map: FloorMap, features: Record<string, Feature>, origin: Position, keep: Set<string>): Position[] {
+  const size = POOL_MIN_SIZE + randomIndex(floorRng, POOL_MAX_SIZE - POOL_MIN_SIZE + 1);
+  const pool = [origin];
+  const taken = new Set([origin.x + '_' + origin.y]);
+
+  while (pool.length < size) {
+    const candidates: Position[] = [];
+    for (const tile of pool) {
+      for (const d of DIRECTION_VECTORS) {
+        const next = { x: tile.x + d.x, y: tile.y + d.y };
+        const key = next.x + '_' + next.y;
+        if (map.map[next.x]?.[next.y] === 0 && !features[key] && !keep.has(key) && !taken.has(key)) {
+          candidates.push(next);
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      break;
+    }
+
+    const next = candidates[randomIndex(floorRng, candidates.length)]!;
+    taken.add(next.x + '_' + next.y);
+    pool.push(next);
+  }
+
+  return pool;
+}
+
+/**
+ * Places the water and lava pools of a new floor
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @param {Object} map - Floor map
+ * @param {Object.<string, Feature>} features - Tile features (modified in place)
+ * @param {Array<Position>} tiles - Floor tiles
+ * @param {Array<Position>} keep - Tiles to keep free (start first, then stairs)
+ */
+export function placeHazards(
+  floorRng: RngHolder,
+  depth: number,
+  map: FloorMap,
+  features: Record<string, Feature>,
+  tiles: Position[],
+  keep: Position[]
+) {
+  const keepKeys = new Set(keep.map(tile => tile.x + '_' + tile.y));
+  const start = keep[0]!;
+
+  for (let p = 0; p < HAZARD_POOLS; p++) {
+    const origin = tiles[randomIndex(floorRng, tiles.length)]!;
+    const originKey = origin.x + '_' + origin.y;
+    if (features[originKey] || keepKeys.has(originKey)) {
+      continue;
+    }
+
+    const type = depth >= LAVA_MIN_DEPTH && random(floorRng) < LAVA_CHANCE
+      ? FEATURE_TYPES.LAVA
+      : FEATURE_TYPES.WATER;
+    const before = type === FEATURE_TYPES.LAVA ? reachableTiles(map, features, start, true).length : 0;
+
+    const pool = growPool(floorRng, map, features, origin, keepKeys);
+    for (const tile of pool) {
+      features[tile.x + '_' + tile.y] = { type };
+    }
+
+    // Lava that walls something off is dropped again
+    if (type === FEATURE_TYPES.LAVA && reachableTiles(map, features, start, true).length !== before - pool.length) {
+      for (const tile of pool) {
+        delete features[tile.x + '_' + tile.y];
+      }
+    }
+  }
+}
+
+/**
+ * Sets the traps of a new floor
+ * @param {Object} floorRng - RNG holder for the floor ({ rng })
+ * @param {number} depth - Floor depth (1-based)
+ * @param {Object.<string, Feature>} features - Tile features (modified in place)
+ * @param {Array<Position>} tiles - Floor tiles
+ * @param {Array<Position>} keep - Tiles to keep free (start, stairs)
+ */
+export function placeTraps(floorRng: RngHolder, depth: number, features: Record<string, Feature>, tiles: Position[], keep: Position[]) {
+  const keepKeys = new Set(keep.map(tile => tile.x + '_' + tile.y));
+  const table = TRAP_TABLE.filter(entry => entry.minDepth <= depth);
+  const trapCount = TRAPS_BASE + (depth - 1) * TRAPS_PER_DEPTH;
+
+  for (let t = 0; t < trapCount; t++) {
+    const free = tiles.filter(tile => !features[tile.x + '_' + tile.y] && !keepKeys.has(tile.x + '_' + tile.y));
+    if (free.length === 0) {
+      break;
+    }
+
+    const tile = free[randomIndex(floorRng, free.length)]!;
+    features[tile.x + '_' + tile.y] = {
+      type: FEATURE_TYPES.TRAP,
+      trap: pickWeighted(floorRng, table).kind,
+      hidden: random(floorRng) < TRAP_HIDDEN_CHANCE
+    };
+  }
+}
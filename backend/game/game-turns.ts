@@ -0,0 +1,191 @@
+/**
+ * ============================================================================
+ * TURN SYSTEM
+ * ============================================================================
+ *
+ * Energy-based turn order. Pacing is defined by game rules, not by the
+ * server clock, so replays run exactly like the original game.
+ *
+ * ENERGY:
+ * - Every action costs energy (ACTION_COSTS; enemy turns cost ACTION_ENERGY)
+ * - Each turn every actor gains energy equal to its speed (NORMAL_SPEED = 100)
+ *   plus its haste; stunned actors gain none (see game-effects.ts)
+ * - An actor may act while it has at least ACTION_ENERGY banked
+ *
+ * A speed 120 rat therefore acts six times in five turns, a speed 80 troll
+ * four times. Cheap actions (picking up, dropping) leave energy banked, so
+ * two of them fit into a single turn.
+ *
+ * GAME TIME:
+ * After the player acts, turns pass until the player can act again;
+ * gameState.gameTime counts the turns. Enemies act during those turns in
+ * actorList order.
+ *
+ * WAITING AND RESTING:
+ * 'wait' passes a turn and recovers WAIT_HEAL hit points. 'rest' keeps
+ * waiting until the player is at full health, an enemy comes into view, the
+ * player gets hurt, or REST_MAX_TURNS have passed; every turn rested costs
+ * a full wait.
+ * ============================================================================
+ */
+
+import { ACTION_ENERGY, ACTION_COSTS, ACTIONS, NORMAL_SPEED } from './game-constants.ts';
+import { enemyAct } from './game-ai.ts';
+import { checkGameOver } from './game-rules.ts';
+import { tickAbilityCooldown } from './game-classes.ts';
+import { tickEffects, isStunned, getEffectModifiers } from './game-effects.ts';
+import { pushEvent } from './game-combat.ts';
+import { getPlayerFov } from './game-fov.ts';
+import type { ActionResult, Actor, GameState } from './game-constants.ts';
+
+// Hit points recovered by each turn spent waiting
+const WAIT_HEAL = 1;
+
+// Longest rest, in turns
+const REST_MAX_TURNS = 100;
+
+/**
+ * Gets the energy a player action costs
+ * @param {string} type - One of ACTIONS
+ * @returns {number} Energy cost
+ */
+export function getActionCost(type: string): number {
+  return ACTION_COSTS[type] ?? ACTION_ENERGY;
+}
+
+/**
+ * Checks whether an actor has enough energy to act
+ * @param {Actor} actor - Actor to check
+ * @returns {boolean} True if the actor may act
+ */
+export function canAct(actor: Actor): boolean {
+  return (actor.energy ?? 0) >= ACTION_ENERGY;
+}
+
+/**
+ * Spends an actor's energy on an action
+ * @param {Actor} actor - Acting actor
+ * @param {number} cost - Energy cost of the action
+ */
+export function spendEnergy(actor: Actor, cost: number) {
+  actor.energy = (actor.energy ?? 0) - cost;
+}
+
+/**
+ * Gives an actor its energy for one turn (none while stunned)
+ * @param {Actor} actor - Actor to refill
+ */
+function gainEnergy(actor: Actor) {
+  if (isStunned(actor)) {
+    return;
+  }
+  actor.energy = (actor.energy ?? 0) + (actor.speed ?? NORMAL_SPEED) + getEffectModifiers(actor).speed;
+}
+
+/**
+ * Plays one turn: every actor gains energy, its status effects tick and
+ * enemies act while they can
+ * @param {GameState} gameState - Current game state
+ */
+function runTurn(gameState: GameState) {
+  gameState.gameTime++;
+
+  const player = gameState.player;
+  gainEnergy(player);
+  tickAbilityCooldown(player);
+  tickEffects(gameState, player);
+  if (checkGameOver(gameState)) {
+    return;
+  }
+
+  // Enemies killed earlier this turn (or by a trap on their own move) are skipped
+  for (const actor of [...gameState.actorList]) {
+    if (actor.isPlayer || actor.hp <= 0) {
+      continue;
+    }
+
+    gainEnergy(actor);
+    tickEffects(gameState, actor);
+    while (actor.hp > 0 && canAct(actor) && !checkGameOver(gameState)) {
+      enemyAct(gameState, actor);
+      spendEnergy(actor, ACTION_ENERGY);
+    }
+  }
+}
+
+/**
+ * Passes turns until the player can act again or the game ends
+ * @param {GameState} gameState - Current game state
+ */
+export function advanceTime(gameState: GameState) {
+  while (!canAct(gameState.player) && !checkGameOver(gameState)) {
+    runTurn(gameState);
+  }
+}
+
+/**
+ * Passes the player's turn, recovering WAIT_HEAL hit points
+ * @param {GameState} gameState - Current game state
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function wait(gameState: GameState): ActionResult {
+  const player = gameState.player;
+  player.hp = Math.min(player.maxHp, player.hp + WAIT_HEAL);
+  return { success: true, gameState };
+}
+
+/**
+ * Checks whether any enemy is in the player's field of view
+ * @param {GameState} gameState - Current game state
+ * @returns {boolean} True if the player sees an enemy
+ */
+function seesEnemy(gameState: GameState): boolean {
+  const visible = getPlayerFov(gameState);
+  return gameState.actorList.some(actor => !actor.isPlayer && visible.has(actor.x + '_' + actor.y));
+}
+
+/**
+ * Waits turn after turn until healed or interrupted. The last turn is left
+ * to the caller, which spends and advances it like any other action.
+ * @param {GameState} gameState - Current game state
+ * @returns {Object} Result with success flag and updated game state
+ */
+export function rest(gameState: GameState): ActionResult {
+  const player = gameState.player;
+
+  if (player.hp >= player.maxHp) {
+    return { success: false, error: 'Already at full health' };
+  }
+  if (seesEnemy(gameState)) {
+    return { success: false, error: 'Cannot rest with enemies in view' };
+  }
+
+  let turns = 0;
+  while (true) {
+    const hp = player.hp;
+    wait(gameState);
+    turns++;
+
+    if (player.hp >= player.maxHp || turns >= REST_MAX_TURNS) {
+      break;
+    }
+
+    spendEnergy(player, getActionCost(ACTIONS.REST));
+    advanceTime(gameState);
+
+    if (checkGameOver(gameState) || player.hp < hp + WAIT_HEAL || seesEnemy(gameState)) {
+      break;
+    }
+  }
+
+  pushEvent(gameState, {
+    type: 'rest',
+    turns,
+    hp: player.hp,
+    x: player.x,
+    y: player.y,
+    gameTime: gameState.gameTime
+  });
+
+  return { success: true, gameState };
+}
@@ -26,19 +26,46 @@
 
 import { ethers } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
-import { changeDirection, updateGame } from './snake.ts';
+import { playTurn, updateGame, createSync, ACTIONS, MOVE_VECTORS } from './snake.ts';
+import type { PlayerAction } from './game-movement.ts';
+import type { GameState } from './game-constants.ts';
 
 /**
  * @typedef {Object} Room
  * @property {string} id - Unique room identifier
  * @property {Object} players - Map of player roles
  * @property {string|null} players.host - Host's Ethereum address (Player)
- * @property {Map<string, Object>} connections - Map of player connections by EOA
+ * @property {Map<string, PlayerConnection>} connections - Map of player connections by EOA
  * @property {Object|null} gameState - Current game state
+ * @property {SyncState} sync - Sequence number and baseline of the state deltas (see game-sync.ts)
  * @property {boolean} isReady - Whether the room is ready to start
  * @property {number} createdAt - Creation timestamp
  */
 
+/**
+ * A client's WebSocket connection, tagged with the room it joined
+ */
+export interface PlayerSocket {
+  id?: string;              // Room ID, set by createRoom and joinRoom
+  send(data: string): void;
+}
+
+/**
+ * A player's entry in Room.connections
+ */
+export interface PlayerConnection {
+  ws: PlayerSocket;    // WebSocket connection
+  sessionKey: string;  // Session key address the player signs actions with
+  lastMoveSeq: number; // Sequence number of the last signed action
+}
+
+/**
+ * Result of processAction
+ */
+export type ActionOutcome =
+  | { success: true; action?: string; direction?: string; gameState: GameState }
+  | { success: false; error: string };
+
 /**
  * @typedef {Object} RoomManager
  * @property {Map<string, Room>} rooms - Map of active rooms by ID
@@ -56,14 +83,18 @@ export function createRoomManager() {
 
 
   function createRoom(ws) {
-    const roomId = ws.id;
+    const roomId = ws.id || uuidv4();
+    ws.id = roomId;
     rooms.set(roomId, {
       id: roomId,
       players: {
         host: null
       },
       connections: new Map(),
-      gameState: {},
+      gameState: null,
+      sync: createSync(),
+      characterClass: null,
+      dungeonType: null,
       isReady: true, // Always ready in single player
       createdAt: Date.now(),
     });
@@ -75,9 +106,12 @@ export function createRoomManager() {
    * @param {string} roomId - Room ID
    * @param {string} eoa - Player's Ethereum address
    * @param {WebSocket} ws - WebSocket connection
+   * @param {string} sessionKey - Session key address the player signs moves with (authorization already verified)
+   * @param {string} [characterClass] - Class the player picked
+   * @param {string} [dungeonType] - Dungeon type the player picked
    * @returns {Object} Result with success flag and additional info
    */
-  function joinRoom(roomId, eoa, ws) {
+  function joinRoom(roomId, eoa, ws, sessionKey: string, characterClass?: string, dungeonType?: string) {
     // Format address to proper checksum format
     const formattedEoa = ethers.getAddress(eoa);
 
@@ -102,9 +136,21 @@ export function createRoomManager() {
     room.players.host = formattedEoa;
 
     // Update connections
-    room.connections.set(formattedEoa, { ws });
+    room.connections.set(formattedEoa, {
+      ws,
+      sessionKey: ethers.getAddress(sessionKey),
+      lastMoveSeq: 0
+    });
     addressToRoom.set(formattedEoa, roomId);
 
+    if (characterClass) {
+      room.characterClass = characterClass;
+    }
+
+    if (dungeonType) {
+      room.dungeonType = dungeonType;
+    }
+
     // Store room ID on websocket for easy access
     ws.id = roomId;
 
@@ -123,14 +169,12 @@ export function createRoomManager() {
    * @param {string} playerEoa - The EOA of the player making the move
    * @returns {Object} Result with success flag and additional info
    */
-  function processDirectionChange(roomId, payload, playerEoa) {
-    const { x, y } = payload;
-    let direction = '';
-    if (x === 0 && y === -1) direction = 'UP';
-    else if (x === 0 && y === 1) direction = 'DOWN';
-    else if (x === -1 && y === 0) direction = 'LEFT';
-    else if (x === 1 && y === 0) direction = 'RIGHT';
-    else return { success: false, error: 'Invalid move vector' };
+  function processDirectionChange(roomId, payload, playerEoa): ActionOutcome {
+    const vector = MOVE_VECTORS.find(d => d.x === payload.x && d.y === payload.y);
+    if (!vector) {
+      return { success: false, error: 'Invalid move vector' };
+    }
+    const direction = vector.direction;
 
     if (!rooms.has(roomId)) {
       return {
@@ -153,7 +197,35 @@ export function createRoomManager() {
     // We need the player EOA. In this simple setup, we assume it's the host.
     // const playerEoa = room.players?.host; // This was commented out in the original, and now we pass it as an argument.
 
-    const result = changeDirection(room.gameState, direction, playerEoa); // Use the passed playerEoa
+    return processAction(roomId, { type: ACTIONS.MOVE, direction }, playerEoa); // Use the passed playerEoa
+  }
+
+  /**
+   * Plays a player action (move, descend, ...) followed by the enemies' turns
+   * @param {string} roomId - Room ID
+   * @param {Object} action - Player action ({ type: ACTIONS.*, ... })
+   * @param {string} playerEoa - The EOA of the player acting
+   * @returns {Object} Result with success flag and additional info
+   */
+  function processAction(roomId: string, action: PlayerAction, playerEoa: string): ActionOutcome {
+    if (!rooms.has(roomId)) {
+      return {
+        success: false,
+        error: 'Room not found'
+      };
+    }
+
+    const room = rooms.get(roomId);
+
+    // Check if the game has started
+    if (!room.gameState) {
+      return {
+        success: false,
+        error: 'Game has not started'
+      };
+    }
+
+    const result = playTurn(room.gameState, action, playerEoa);
     if (!result.success) {
       return result;
     }
@@ -163,6 +235,8 @@ export function createRoomManager() {
 
     return {
       success: true,
+      action: result.action,
+      direction: action.direction,
       gameState: room.gameState
     };
   }
@@ -309,9 +383,14 @@ export function createRoomManager() {
     createRoom,
     joinRoom,
     processDirectionChange,
+    processAction,
     updateGameState,
     leaveRoom,
     broadcastToRoom,
     closeRoom
   };
-}
\ No newline at end of file
+}
+/**
+ * Room manager instance (see createRoomManager)
+ */
+export type RoomManager = ReturnType<typeof createRoomManager>;
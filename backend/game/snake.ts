@@ -8,14 +8,37 @@
  *
  * GAME RULES:
  * - Grid: 50x50 cells
- * - Roguelike movement (turn-based or real-time grid)
+ * - Roguelike movement (eight directions) on energy-based turns
  * - Players control an actor
  *
  * MODULES:
  * - game-constants.js - Configuration and types
- * - game-init.js      - Game initialization
+ * - game-init.js      - Game initialization and (de)serialization
+ * - game-floors.js    - Floor generation, stairs and descending
+ * - game-mapgen.js    - Map generators per dungeon type
+ * - game-features.js  - Doors, locks, secret walls and vaults
+ * - game-traps.js     - Traps, hazard pools and searching
+ * - game-items.js     - Items, inventory and loot drops
+ * - game-equipment.js - Equipment slots and derived combat stats
+ * - game-progression.js - Experience, leveling and perks
+ * - game-classes.js   - Character classes and class abilities
+ * - game-rng.js       - Per-game seeded RNG
+ * - game-seed.js      - Seed commit-reveal
+ * - game-replay.js    - Deterministic replay of closed sessions
  * - game-movement.js  - Movement and collision detection
+ * - game-combat.js    - Bump-to-attack combat resolution
+ * - game-ranged.js    - Targeted shots with bows, wands and spells
+ * - game-bestiary.js  - Monster definitions and spawn tables
+ * - game-bosses.js    - Final floor boss, its phases, specials and guards
+ * - game-fov.js       - Field of view, line of sight and fog of war
+ * - game-pathfinding.js - A* steps, fleeing and wandering
+ * - game-behaviors.js - Pluggable enemy behaviors
+ * - game-ai.js        - Enemy perception, memory and turns
+ * - game-turns.js     - Energy, speed, game time, waiting and resting
+ * - game-effects.js   - Status effects (poison, stun, regen, haste)
+ * - game-rules.js     - Win/loss detection
  * - game-format.js    - State formatting for clients
+ * - game-sync.js      - Snapshots and sequenced state deltas
  * ============================================================================
  */
 
@@ -23,23 +46,209 @@
 export {
   GRID_WIDTH,
   GRID_HEIGHT,
-  DIRECTIONS
+  DIRECTIONS,
+  DIRECTION_VECTORS,
+  DIAGONAL_VECTORS,
+  MOVE_VECTORS,
+  END_CONDITIONS,
+  ACTIONS,
+  DUNGEON_DEPTH,
+  ITEM_TYPES,
+  INVENTORY_CAPACITY,
+  EQUIPMENT_SLOTS,
+  CHARACTER_CLASSES,
+  DEFAULT_CHARACTER_CLASS,
+  DUNGEON_TYPES,
+  DEFAULT_DUNGEON_TYPE,
+  FEATURE_TYPES,
+  BEHAVIORS,
+  STATUS_EFFECTS,
+  ACTION_ENERGY,
+  ACTION_COSTS,
+  PLAYER_SIGHT
 } from './game-constants.ts';
 
 // Re-export initialization
 export {
-  createGame
+  createGame,
+  serializeGame,
+  restoreGame
 } from './game-init.ts';
 
+// Re-export floors
+export {
+  generateFloor,
+  enterFloor,
+  descend
+} from './game-floors.ts';
+
+// Re-export map generators
+export {
+  DUNGEON_LAYOUTS,
+  PREFABS,
+  registerMapGenerator,
+  getFloorGenerator,
+  generateMap
+} from './game-mapgen.ts';
+
+// Re-export tile features
+export {
+  getFeature,
+  bumpFeature,
+  closeDoor
+} from './game-features.ts';
+
+// Re-export traps and hazards
+export {
+  TRAPS,
+  TRAP_TABLE,
+  enterTile,
+  search
+} from './game-traps.ts';
+
+// Re-export items
+export {
+  ITEMS,
+  createItem,
+  teleportActor,
+  dropLoot,
+  pickupItem,
+  useItem,
+  dropItem
+} from './game-items.ts';
+
+// Re-export equipment
+export {
+  equipItem,
+  unequipItem,
+  getLoadout,
+  getCombatStats
+} from './game-equipment.ts';
+
+// Re-export progression
+export {
+  PERKS,
+  gainXp,
+  choosePerk
+} from './game-progression.ts';
+
+// Re-export character classes
+export {
+  CLASSES,
+  applyCharacterClass,
+  useAbility
+} from './game-classes.ts';
+
+// Re-export seed commit-reveal
+export {
+  createSeedCommitment,
+  deriveSeed,
+  verifySeedReveal
+} from './game-seed.ts';
+
+// Re-export per-game RNG
+export {
+  createRng,
+  restoreRng
+} from './game-rng.ts';
+
 // Re-export movement and collision
 export {
   moveActor,
-  changeDirection,
-  updateGame
+  updateGame,
+  playTurn
 } from './game-movement.ts';
 
+// Re-export combat
+export {
+  rollDice,
+  attackActor,
+  killActor,
+  removeActor
+} from './game-combat.ts';
+
+// Re-export ranged attacks
+export {
+  lineTiles,
+  traceProjectile,
+  fireAt
+} from './game-ranged.ts';
+
+// Re-export bestiary
+export {
+  BESTIARY,
+  SPAWN_TABLE,
+  createEnemy
+} from './game-bestiary.ts';
+
+// Re-export bosses
+export {
+  BOSSES,
+  placeBoss,
+  bossTurn
+} from './game-bosses.ts';
+
+// Re-export enemy AI
+export {
+  perceive,
+  enemyAct
+} from './game-ai.ts';
+
+// Re-export turn system
+export {
+  getActionCost,
+  canAct,
+  advanceTime,
+  wait,
+  rest
+} from './game-turns.ts';
+
+// Re-export status effects
+export {
+  EFFECTS,
+  applyEffect,
+  tickEffects,
+  getEffectModifiers
+} from './game-effects.ts';
+
+// Re-export behaviors, field of view and pathfinding
+export {
+  registerBehavior,
+  getBehavior
+} from './game-behaviors.ts';
+
+export {
+  computeFov,
+  canSee,
+  getPlayerFov
+} from './game-fov.ts';
+
+export {
+  findPath,
+  stepTowards
+} from './game-pathfinding.ts';
+
+// Re-export win/loss rules
+export {
+  checkGameOver
+} from './game-rules.ts';
+
+// Re-export replay verification
+export {
+  replayGame,
+  verifySessionReplay
+} from './game-replay.ts';
+
 // Re-export formatting
 export {
   formatGameState,
-  formatGameOverMessage
+  formatGameOverMessage,
+  hashGameState
 } from './game-format.ts';
+
+// Re-export state sync
+export {
+  createSync,
+  formatSnapshot,
+  formatDelta
+} from './game-sync.ts';
@@ -15,7 +15,16 @@
  * - "joinRoom" → Room handlers
  * - "getAvailableRooms" → Room handlers
  * - "startGame" → Game handlers
- * - "changeDirection" → Game handlers
+ * - "move" → Game handlers (signed with the player's session key)
+ * - "descend" → Game handlers (signed, taken while standing on the stairs)
+ * - "pickup" / "useItem" / "drop" → Game handlers (signed inventory actions)
+ * - "choosePerk" → Game handlers (signed, spends a perk earned on level up)
+ * - "useAbility" → Game handlers (signed, the class ability)
+ * - "closeDoor" → Game handlers (signed, closes an adjacent open door)
+ * - "search" → Game handlers (signed, reveals hidden traps nearby)
+ * - "target" → Game handlers (signed, shoots at a tile with a bow, wand or spell)
+ * - "wait" / "rest" → Game handlers (signed, pass one turn / wait until healed)
+ * - "resync" → Game handlers (full state after a gap in "game:delta" sequence numbers)
  * - "appSession:signature" → Signature collection
  *
  * ARCHITECTURE:
@@ -33,8 +42,10 @@ import 'dotenv/config';
 import { createWebSocketServer, sendError, startPingInterval } from './websocket/config.ts';
 import { initializeRPCClient } from './nitrolite/client.ts';
 import { createRoomManager } from './game/rooms.ts';
-import { handleStartGame, handleMove } from './websocket/handlers/game.ts';
-import { addAppSessionSignature, createAppSessionWithSignatures, getPendingAppSessionMessage } from './nitrolite/appSessions.ts';
+import { handleStartGame, handleMove, handleDescend, handlePlayerAction, handleResync, startGameOverDetectionLoop } from './websocket/handlers/game.ts';
+import { handleJoinRoom } from './websocket/handlers/room.ts';
+import { addAppSessionSignature, createAppSessionWithSignatures, getPendingAppSessionMessage, setPlayerEntropy, getRunSeed, getSessionCharacterClass, getSessionDungeonType } from './nitrolite/appSessions.ts';
+import { isValidEntropy } from './utils/validators.ts';
 import logger from './utils/logger.ts';
 
 // Create WebSocket server
@@ -56,12 +67,16 @@ async function handleAppSessionSignature(ws, payload, { roomManager, connections
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
   }
 
-  const { roomId, signature } = payload;
+  const { roomId, signature, entropy } = payload;
 
   if (!roomId || !signature) {
     return sendError(ws, 'INVALID_PAYLOAD', 'Room ID and signature are required');
   }
 
+  if (entropy !== undefined && !isValidEntropy(entropy)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid entropy');
+  }
+
   // Find the player submitting the signature
   let playerEoa = null;
   for (const [eoa, connection] of connections.entries()) {
@@ -76,6 +91,11 @@ async function handleAppSessionSignature(ws, payload, { roomManager, connections
   }
 
   try {
+    // Player entropy feeds the committed dungeon seed
+    if (entropy) {
+      setPlayerEntropy(roomId, entropy);
+    }
+
     const allSignaturesCollected = await addAppSessionSignature(roomId, playerEoa, signature);
 
     logger.nitro(`Signature added for ${playerEoa} in room ${roomId}`);
@@ -137,12 +157,16 @@ async function handleAppSessionStartGame(ws, payload, { roomManager, connections
     return sendError(ws, 'INVALID_PAYLOAD', 'Invalid payload format');
   }
 
-  const { roomId, signature } = payload;
+  const { roomId, signature, entropy } = payload;
 
   if (!roomId || !signature) {
     return sendError(ws, 'INVALID_PAYLOAD', 'Room ID and signature are required');
   }
 
+  if (entropy !== undefined && !isValidEntropy(entropy)) {
+    return sendError(ws, 'INVALID_PAYLOAD', 'Invalid entropy');
+  }
+
   // Find the player submitting the signature (should be host)
   let playerEoa = null;
   for (const [eoa, connection] of connections.entries()) {
@@ -168,6 +192,11 @@ async function handleAppSessionStartGame(ws, payload, { roomManager, connections
   //}
 
   try {
+    // Player entropy feeds the committed dungeon seed
+    if (entropy) {
+      setPlayerEntropy(roomId, entropy);
+    }
+
     // Add the host's signature
     const allSignaturesCollected = await addAppSessionSignature(roomId, playerEoa, signature);
 
@@ -186,26 +215,26 @@ async function handleAppSessionStartGame(ws, payload, { roomManager, connections
     // Initialize game state
     if (!room.gameState) {
       const { createGame } = await import('./game/game-init.js');
-      room.gameState = createGame(room.players.host, room.players.guest);
+      const runSeed = getRunSeed(roomId);
+      room.gameState = createGame(room.players.host, {
+        seed: runSeed?.seed,
+        seedCommitment: runSeed?.commitment,
+        characterClass: getSessionCharacterClass(roomId) || room.characterClass || undefined,
+        dungeonType: getSessionDungeonType(roomId) || room.dungeonType || undefined
+      });
     }
 
-    // Broadcast game started
+    // Broadcast game started, with the only full state (explored map included) of the game
+    const { formatSnapshot } = await import('./game/game-sync.js');
     roomManager.broadcastToRoom(
       roomId,
       'game:started',
-      { roomId, appId }
+      { roomId, appId, gameState: formatSnapshot(room.sync, room.gameState, roomId) }
     );
 
-    // Start the automatic movement game loop
-    console.log(`🚀 Starting automatic movement game loop for room ${roomId} (app session flow)`);
-
-    // Send the initial game state
-    const { formatGameState } = await import('./game/game-format.js');
-    roomManager.broadcastToRoom(
-      roomId,
-      'room:state',
-      formatGameState(room.gameState, roomId)
-    );
+    // Start the game over detection loop so the session is settled when the run ends
+    console.log(`🚀 Starting game over detection loop for room ${roomId} (app session flow)`);
+    startGameOverDetectionLoop(roomId, roomManager);
 
   } catch (error) {
     logger.error(`Error handling app session start game for room ${roomId}:`, error);
@@ -257,11 +286,32 @@ wss.on('connection', (ws) => {
       console.log('data', data);
 
       switch (data.type) {
+        case 'joinRoom':
+          await handleJoinRoom(ws, data.payload, context);
+          break;
         case 'startGame':
           await handleStartGame(ws, data.payload, context);
           break;
         case 'move':
-          await handleMove(ws, data.payload, context);
+          await handleMove(ws, data.payload, context, data.signature);
+          break;
+        case 'descend':
+          await handleDescend(ws, data.payload, context, data.signature);
+          break;
+        case 'pickup':
+        case 'useItem':
+        case 'drop':
+        case 'choosePerk':
+        case 'useAbility':
+        case 'closeDoor':
+        case 'search':
+        case 'target':
+        case 'wait':
+        case 'rest':
+          await handlePlayerAction(ws, data.type, data.payload, context, data.signature);
+          break;
+        case 'resync':
+          await handleResync(ws, data.payload, context);
           break;
         case 'appSession:signature':
           await handleAppSessionSignature(ws, data.payload, context);
@@ -10,6 +10,7 @@
  * - session-storage.js  - In-memory session storage
  * - session-create.js   - Session message generation
  * - session-signatures.js - Signature collection
+ * - session-seed.js     - Dungeon seed commit-reveal
  * - session-close.js    - Session closure and fund distribution
  * ============================================================================
  */
@@ -17,7 +18,9 @@
 // Session creation
 export {
     generateAppSessionMessage,
-    getPendingAppSessionMessage
+    getPendingAppSessionMessage,
+    getSessionCharacterClass,
+    getSessionDungeonType
   } from './session-create.ts';
   
   // Signature collection and move tracking
@@ -32,6 +35,12 @@ export {
     submitAppState
   } from './session-update.ts';
   
+  // Dungeon seed commit-reveal
+  export {
+    setPlayerEntropy,
+    getRunSeed
+  } from './session-seed.ts';
+
   // Session closure
   export {
     closeAppSession
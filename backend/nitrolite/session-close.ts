@@ -22,11 +22,14 @@
  * - Total pot calculations
  *
  * GAMEPLAY TRACKING:
- * - All player moves (player address, direction, timestamp, move number)
+ * - All player moves (player address, action, direction, timestamp, move
+ *   number, resulting state hash and client signature)
  * - Complete timing data (start, end, duration)
  * - Final scores and winner
+ * - Character class the player paid for and played
  * - Move statistics per player
  * - Server address and verification data
+ * - Dungeon seed reveal matching the commitment published at creation
  *
  * This allows Yellow Network to:
  * 1. Verify all financial transactions and fee usage
@@ -43,15 +46,26 @@ import { ethers } from 'ethers';
 import logger from '../utils/logger.ts';
 import { getRPCClient } from './client.ts';
 import { getAppSession, deleteAppSession } from './session-storage.ts';
+import { getSeedReveal } from './session-seed.ts';
+
+/**
+ * Final result of a game, recorded in the closing session data
+ */
+export interface GameOverData {
+  endCondition?: string | null;
+  finalScores?: Record<string, number>;
+  gameTime?: number;
+}
 
 /**
  * Close app session and distribute funds to winner
  *
  * @param {string} roomId - Room ID
  * @param {string|null} winnerEOA - Winner's address (null for tie)
+ * @param {Object} gameData - Final result (endCondition, finalScores, gameTime)
  * @returns {Promise<void>}
  */
-export async function closeAppSession(roomId, winnerEOA = null, gameData = {}) {
+export async function closeAppSession(roomId: string, winnerEOA: string | null = null, gameData: GameOverData = {}) {
   const session = getAppSession(roomId);
 
   if (!session) {
@@ -72,6 +86,10 @@ export async function closeAppSession(roomId, winnerEOA = null, gameData = {}) {
     // Format winner address
     const formattedWinner = winnerEOA ? ethers.getAddress(winnerEOA) : null;
 
+    // Everything the participants put in when the session was created
+    const totalPot = (session.allocations || [])
+      .reduce((sum: number, allocation: { amount: string }) => sum + parseFloat(allocation.amount), 0);
+
     // Create final session data with complete game history for Yellow Network audit
     const finalSessionData = {
       // Game Metadata
@@ -120,9 +138,12 @@ export async function closeAppSession(roomId, winnerEOA = null, gameData = {}) {
 
       // Game Outcome
       gameState: 'closed',
+      characterClass: session.characterClass,
+      dungeonType: session.dungeonType,
       winner: formattedWinner,
-      endCondition: gameData.endCondition || (formattedWinner ? 'collision' : 'tie'),
+      endCondition: gameData.endCondition || (formattedWinner ? 'exit_reached' : 'player_died'),
       finalScores: gameData.finalScores || {},
+      gameTime: gameData.gameTime,
 
       // Complete Move History (for dispute resolution)
       moves: session.moves || [],
@@ -134,6 +155,9 @@ export async function closeAppSession(roomId, winnerEOA = null, gameData = {}) {
         [session.participantB]: (session.moves || []).filter(m => m.player === session.participantB).length
       },
 
+      // Seed reveal: keccak256(serverSeed) must equal the published commitment
+      seed: getSeedReveal(session),
+
       // Verification Data
       appSessionId: session.appSessionId,
       serverAddress: session.serverAddress,
@@ -187,7 +211,7 @@ export async function closeAppSession(roomId, winnerEOA = null, gameData = {}) {
     if (finalSessionData.moves.length > 0) {
       logger.nitro('Sample moves (first 5):');
       finalSessionData.moves.slice(0, 5).forEach(move => {
-        logger.nitro(`  #${move.moveNumber}: ${move.player} → ${move.direction} @ ${new Date(move.timestamp).toISOString()}`);
+        logger.nitro(`  #${move.moveNumber}: ${move.player} → ${move.action} ${move.direction} @ ${new Date(move.timestamp).toISOString()}`);
       });
       if (finalSessionData.moves.length > 5) {
         logger.nitro(`  ... and ${finalSessionData.moves.length - 5} more moves`);
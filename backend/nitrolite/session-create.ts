@@ -11,8 +11,14 @@
  * 3. Create message that all players will sign
  * 4. Store as pending until all signatures collected
  *
- * KEY FUNCTION:
+ * The player's character class and dungeon type are written into
+ * session_data before they sign, so the run they pay for is the one the
+ * game is created with.
+ *
+ * KEY FUNCTIONS:
  * - generateAppSessionMessage() - Creates unsigned message
+ * - getSessionCharacterClass()  - Class recorded in a room's session
+ * - getSessionDungeonType()     - Dungeon type recorded in a room's session
  * ============================================================================
  */
 
@@ -20,7 +26,9 @@ import { createAppSessionMessage } from "@erc7824/nitrolite";
 import { ethers } from 'ethers';
 import logger from '../utils/logger.ts';
 import { getRPCClient } from './client.ts';
-import { getPendingSession, setPendingSession } from './session-storage.ts';
+import { getAppSession, getPendingSession, setPendingSession } from './session-storage.ts';
+import { createSeedCommitment } from '../game/game-seed.ts';
+import { DEFAULT_CHARACTER_CLASS, DEFAULT_DUNGEON_TYPE } from '../game/game-constants.ts';
 
 /**
  * Generate app session message for multi-signature collection
@@ -28,9 +36,11 @@ import { getPendingSession, setPendingSession } from './session-storage.ts';
  * @param {string} roomId - Room ID
  * @param {string} participantA - First player address
  * @param {string} participantB - Second player address
+ * @param {string} [characterClass] - Class the player will play
+ * @param {string} [dungeonType] - Layout family of the run
  * @returns {Promise<Object>} Unsigned message and app definition
  */
-export async function generateAppSessionMessage(roomId, participantA) {
+export async function generateAppSessionMessage(roomId, participantA, characterClass = DEFAULT_CHARACTER_CLASS, dungeonType = DEFAULT_DUNGEON_TYPE) {
   const betAmount = 0;
   try {
     // Format addresses to checksum format
@@ -85,6 +95,9 @@ export async function generateAppSessionMessage(roomId, participantA) {
     const serverFee = '0'; // Could be percentage of pot in future
     const totalPot = 0;
 
+    // Commit to the dungeon seed before the player signs (revealed on close)
+    const { serverSeed, commitment: seedCommitment } = createSeedCommitment();
+
     // Create initial session data with complete game metadata
     const initialSessionData = {
       // Game Metadata
@@ -129,6 +142,8 @@ export async function generateAppSessionMessage(roomId, participantA) {
       */
       // Initial Game State
       gameState: 'created',
+      characterClass: characterClass,
+      dungeonType: dungeonType,
 
       // Move History (empty at start, will be populated during gameplay)
       moves: [],
@@ -141,7 +156,8 @@ export async function generateAppSessionMessage(roomId, participantA) {
 
       // Verification Data
       serverAddress: serverAddress,
-      nonce: nonce
+      nonce: nonce,
+      seedCommitment: seedCommitment
     };
 
     // Create app session data (single object, not array)
@@ -196,6 +212,10 @@ export async function generateAppSessionMessage(roomId, participantA) {
       serverAddress,
       requestToSign,
       nonce,
+      serverSeed,
+      seedCommitment,
+      characterClass,
+      dungeonType,
       signatures: new Map(), // Will collect signatures here
       serverSignature
     });
@@ -223,4 +243,25 @@ export async function generateAppSessionMessage(roomId, participantA) {
  */
 export function getPendingAppSessionMessage(roomId) {
   return getPendingSession(roomId);
-}
\ No newline at end of file
+}
+/**
+ * Get the character class recorded in a room's app session
+ *
+ * @param {string} roomId - Room ID
+ * @returns {string|null} Class ID or null if no session exists
+ */
+export function getSessionCharacterClass(roomId: string): string | null {
+  const session = getAppSession(roomId) || getPendingSession(roomId);
+  return session?.characterClass || null;
+}
+
+/**
+ * Get the dungeon type recorded in a room's app session
+ *
+ * @param {string} roomId - Room ID
+ * @returns {string|null} Dungeon type or null if no session exists
+ */
+export function getSessionDungeonType(roomId: string): string | null {
+  const session = getAppSession(roomId) || getPendingSession(roomId);
+  return session?.dungeonType || null;
+}
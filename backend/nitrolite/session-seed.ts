@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * SESSION SEED
+ * ============================================================================
+ *
+ * Ties the dungeon seed commit-reveal (game/game-seed.ts) to app sessions.
+ *
+ * LIFECYCLE:
+ * 1. generateAppSessionMessage() commits to a server seed (seedCommitment)
+ * 2. setPlayerEntropy() stores the player's entropy on the pending session
+ * 3. getRunSeed() derives the seed the game is created with
+ * 4. getSeedReveal() is written into finalSessionData on close
+ *
+ * KEY FUNCTIONS:
+ * - setPlayerEntropy() - Store player-supplied entropy
+ * - getRunSeed()       - Derive the run seed for a room
+ * - getSeedReveal()    - Reveal data for the final session data
+ * ============================================================================
+ */
+
+import logger from '../utils/logger.ts';
+import { deriveSeed } from '../game/game-seed.ts';
+import { getAppSession, getPendingSession } from './session-storage.ts';
+import type { SeedReveal } from '../game/game-seed.ts';
+
+/**
+ * Seed fields of an app session
+ */
+interface SeededSession {
+  serverSeed: string;      // Secret server seed
+  seedCommitment: string;  // Published commitment to the server seed
+  nonce: number;           // App session nonce
+  playerEntropy?: string;  // Player-supplied entropy
+  seedLocked?: boolean;    // Set once the run seed has been derived
+  randomSeed?: number;     // Derived run seed
+}
+
+/**
+ * Finds the active or pending session holding the seed commitment
+ * @param {string} roomId - Room ID
+ * @returns {Object|undefined} Session
+ */
+function getSeededSession(roomId: string): SeededSession | undefined {
+  const session = getAppSession(roomId) || getPendingSession(roomId);
+  return session && session.serverSeed ? session : undefined;
+}
+
+/**
+ * Store player-supplied entropy for a room's run seed.
+ * Entropy is fixed once the game has started.
+ *
+ * @param {string} roomId - Room ID
+ * @param {string} entropy - Player entropy
+ * @returns {boolean} True if stored
+ */
+export function setPlayerEntropy(roomId: string, entropy: string): boolean {
+  const session = getSeededSession(roomId);
+
+  if (!session) {
+    logger.warn(`No session to store player entropy for room ${roomId}`);
+    return false;
+  }
+
+  if (session.seedLocked) {
+    logger.warn(`Player entropy for room ${roomId} is already locked`);
+    return false;
+  }
+
+  session.playerEntropy = entropy;
+  logger.nitro(`Player entropy stored for room ${roomId}`);
+  return true;
+}
+
+/**
+ * Derive the run seed for a room and lock its inputs
+ *
+ * @param {string} roomId - Room ID
+ * @returns {Object|null} { seed, commitment } or null if no session exists
+ */
+export function getRunSeed(roomId: string): { seed: number; commitment: string } | null {
+  const session = getSeededSession(roomId);
+
+  if (!session) {
+    return null;
+  }
+
+  if (!session.playerEntropy) {
+    logger.warn(`No player entropy for room ${roomId}, deriving seed from server seed and nonce only`);
+  }
+
+  session.seedLocked = true;
+  session.randomSeed = deriveSeed(session.serverSeed, session.playerEntropy, session.nonce);
+
+  return {
+    seed: session.randomSeed,
+    commitment: session.seedCommitment
+  };
+}
+
+/**
+ * Build the seed reveal published when the session closes
+ *
+ * @param {Object} session - Active app session
+ * @returns {Object} Revealed seed inputs
+ */
+export function getSeedReveal(session: SeededSession): SeedReveal {
+  return {
+    commitment: session.seedCommitment,
+    serverSeed: session.serverSeed,
+    playerEntropy: session.playerEntropy || '',
+    nonce: session.nonce,
+    randomSeed: session.randomSeed!
+  };
+}
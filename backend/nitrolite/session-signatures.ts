@@ -227,7 +227,14 @@ export async function createAppSessionWithSignatures(roomId) {
       participantB: pending.participantB,
       serverAddress: pending.serverAddress,
       betAmount: betAmount,
+      allocations: pending.appSessionData.allocations,
       createdAt: Date.now(),
+      nonce: pending.nonce,
+      serverSeed: pending.serverSeed,
+      seedCommitment: pending.seedCommitment,
+      playerEntropy: pending.playerEntropy,
+      characterClass: pending.characterClass,
+      dungeonType: pending.dungeonType,
       moves: [], // Track all direction changes
       feeHistory: [
         {
@@ -266,14 +273,26 @@ export async function createAppSessionWithSignatures(roomId) {
 }
 
 /**
- * Add a move to the app session move history
+ * An accepted action, as recorded in the app session move history
+ */
+export interface AcceptedMove {
+  type: string;              // Requested action (message type: move, descend, ...)
+  action?: string;           // Action performed (move, attack, descend, ...)
+  direction?: string;        // Direction (UP, DOWN, LEFT, RIGHT, ...)
+  params?: object;           // Other signed action fields (e.g. itemId)
+  stateHash: string;         // Hash of the game state after the action
+  signature?: string | null; // Client signature of the move message
+  timestamp?: number;        // Move timestamp
+}
+
+/**
+ * Add an accepted action to the app session move history
  *
  * @param {string} roomId - Room ID
  * @param {string} playerEOA - Player who made the move
- * @param {string} direction - Direction (UP, DOWN, LEFT, RIGHT)
- * @param {number} timestamp - Move timestamp
+ * @param {AcceptedMove} move - Accepted action
  */
-export function addMoveToSession(roomId, playerEOA, direction, timestamp = Date.now()) {
+export function addMoveToSession(roomId: string, playerEOA: string, { type, action, direction, params, stateHash, signature = null, timestamp = Date.now() }: AcceptedMove) {
   const session = getAppSession(roomId);
 
   if (!session) {
@@ -288,12 +307,17 @@ export function addMoveToSession(roomId, playerEOA, direction, timestamp = Date.
   // Add move to history
   const move = {
     player: ethers.getAddress(playerEOA),
+    type,
+    action,
     direction,
+    params,
     timestamp,
-    moveNumber: session.moves.length + 1
+    moveNumber: session.moves.length + 1,
+    stateHash,
+    signature
   };
 
   session.moves.push(move);
 
-  logger.debug(`Move #${move.moveNumber} recorded: ${playerEOA} → ${direction}`);
+  logger.debug(`Move #${move.moveNumber} recorded: ${playerEOA} → ${action} ${direction}`);
 }
\ No newline at end of file
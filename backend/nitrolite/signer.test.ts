@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { ethers } from 'ethers';
+import { getSessionKeyAuthorizationMessage, recoverMessageSigner, verifySessionKeyAuthorization } from './signer.ts';
+
+const ROOM_ID = 'room';
+const MINUTE = 60 * 1000;
+
+function randomWallet() {
+  return new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+}
+
+describe('recoverMessageSigner', () => {
+  test('recovers the key that signed the JSON payload', () => {
+    const wallet = randomWallet();
+    const payload = { type: 'move', payload: { x: 1, y: 0, seq: 1 } };
+    const signature = wallet.signingKey.sign(ethers.id(JSON.stringify(payload))).serialized;
+
+    expect(recoverMessageSigner(payload, signature)).toBe(wallet.address);
+  });
+
+  test('recovers another address once the payload is changed', () => {
+    const wallet = randomWallet();
+    const payload = { type: 'move', payload: { x: 1, y: 0, seq: 1 } };
+    const signature = wallet.signingKey.sign(ethers.id(JSON.stringify(payload))).serialized;
+
+    expect(recoverMessageSigner({ ...payload, payload: { x: 1, y: 0, seq: 2 } }, signature)).not.toBe(wallet.address);
+  });
+});
+
+describe('verifySessionKeyAuthorization', () => {
+  const eoa = randomWallet();
+  const sessionKey = randomWallet().address;
+
+  async function authorize(roomId: string | undefined, expiresAt: number) {
+    return eoa.signMessage(getSessionKeyAuthorizationMessage(eoa.address, sessionKey, roomId, expiresAt));
+  }
+
+  test('accepts the EOA authorization of the session key for the room', async () => {
+    const expiresAt = Date.now() + MINUTE;
+    const signature = await authorize(ROOM_ID, expiresAt);
+
+    expect(verifySessionKeyAuthorization(eoa.address, sessionKey, ROOM_ID, expiresAt, signature)).toBe(true);
+  });
+
+  test('rejects an authorization given for another room', async () => {
+    const expiresAt = Date.now() + MINUTE;
+    const signature = await authorize('other room', expiresAt);
+
+    expect(verifySessionKeyAuthorization(eoa.address, sessionKey, ROOM_ID, expiresAt, signature)).toBe(false);
+    expect(verifySessionKeyAuthorization(eoa.address, sessionKey, undefined, expiresAt, signature)).toBe(false);
+  });
+
+  test('rejects an authorization of another session key', async () => {
+    const expiresAt = Date.now() + MINUTE;
+    const signature = await authorize(ROOM_ID, expiresAt);
+
+    expect(verifySessionKeyAuthorization(eoa.address, randomWallet().address, ROOM_ID, expiresAt, signature)).toBe(false);
+  });
+
+  test('rejects an expired authorization', async () => {
+    const expiresAt = Date.now() - 1;
+    const signature = await authorize(ROOM_ID, expiresAt);
+
+    expect(verifySessionKeyAuthorization(eoa.address, sessionKey, ROOM_ID, expiresAt, signature)).toBe(false);
+  });
+
+  test('rejects an authorization valid for too long', async () => {
+    const expiresAt = Date.now() + 24 * 60 * MINUTE;
+    const signature = await authorize(ROOM_ID, expiresAt);
+
+    expect(verifySessionKeyAuthorization(eoa.address, sessionKey, ROOM_ID, expiresAt, signature)).toBe(false);
+  });
+});
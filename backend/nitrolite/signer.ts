@@ -5,6 +5,9 @@
 import { ethers } from 'ethers';
 import logger from '../utils/logger.ts';
 
+// Longest a session key authorization may be valid for (ms)
+const SESSION_KEY_AUTHORIZATION_TTL = 10 * 60 * 1000;
+
 /**
  * Creates a message signer from a private key using ethers.js v6
  * This signer is compatible with Nitrolite's MessageSigner interface
@@ -155,4 +158,70 @@ export async function generateKeyPair() {
             address: ethers.getAddress(wallet.address),
         };
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Recovers the address that signed a message with Nitrolite's
+ * createECDSAMessageSigner (raw ECDSA over keccak256 of the JSON payload)
+ *
+ * @param {Object} payload - The exact object that was signed
+ * @param {string} signature - Hex signature
+ * @returns {string|null} Checksummed signer address, or null if unrecoverable
+ */
+export function recoverMessageSigner(payload: object, signature: string): string | null {
+    try {
+        const digest = ethers.id(JSON.stringify(payload));
+        return ethers.getAddress(ethers.recoverAddress(digest, signature));
+    } catch (error) {
+        logger.warn('Could not recover message signer:', (error as Error).message);
+        return null;
+    }
+}
+
+/**
+ * Builds the message a player signs with their EOA to authorize the session
+ * key that will sign their moves (the client builds the same text)
+ *
+ * @param {string} eoa - Player's Ethereum address
+ * @param {string} sessionKey - Session key address
+ * @param {string|undefined} roomId - Room to join (undefined to create one)
+ * @param {number} expiresAt - Time the authorization must be used by (ms since epoch)
+ * @returns {string} Message to sign with personal_sign
+ */
+export function getSessionKeyAuthorizationMessage(eoa: string, sessionKey: string, roomId: string | undefined, expiresAt: number): string {
+    const room = roomId ? `room ${roomId}` : 'a new room';
+    return `Enter the Dungeon: authorize session key ${ethers.getAddress(sessionKey)} for ${ethers.getAddress(eoa)} to join ${room} before ${new Date(expiresAt).toISOString()}`;
+}
+
+/**
+ * Checks that an EOA signed the authorization of a session key for this
+ * room, and that the authorization has not expired
+ *
+ * @param {string} eoa - Player's Ethereum address
+ * @param {string} sessionKey - Session key address
+ * @param {string|undefined} roomId - Room to join (undefined to create one)
+ * @param {number} expiresAt - Expiry of the authorization (ms since epoch)
+ * @param {string} signature - EOA's personal_sign signature of getSessionKeyAuthorizationMessage()
+ * @returns {boolean} True if the EOA authorized the session key
+ */
+export function verifySessionKeyAuthorization(
+    eoa: string,
+    sessionKey: string,
+    roomId: string | undefined,
+    expiresAt: number,
+    signature: string
+): boolean {
+    // A signature stays replayable until it expires, so it can't be valid for long
+    const now = Date.now();
+    if (expiresAt <= now || expiresAt > now + SESSION_KEY_AUTHORIZATION_TTL) {
+        return false;
+    }
+
+    try {
+        const message = getSessionKeyAuthorizationMessage(eoa, sessionKey, roomId, expiresAt);
+        return ethers.verifyMessage(message, signature) === ethers.getAddress(eoa);
+    } catch (error) {
+        logger.warn('Could not verify session key authorization:', (error as Error).message);
+        return false;
+    }
+}
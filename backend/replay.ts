@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * SESSION REPLAY VERIFIER - CLI Entry Point
+ * ============================================================================
+ *
+ * Replays an exported, closed app session and reports whether the recorded
+ * winner matches what the game rules produce.
+ *
+ * INPUT:
+ * A JSON file holding either the final session_data object, or a close
+ * message / RPC payload with session_data as a JSON string.
+ *
+ * TO RUN:
+ *   bun run replay.ts <session.json>
+ *
+ * Exits with code 0 when the outcome is verified, 1 otherwise.
+ * ============================================================================
+ */
+
+import { readFileSync } from 'fs';
+import { verifySessionReplay } from './game/game-replay.ts';
+import type { ReplaySessionData } from './game/game-replay.ts';
+import logger from './utils/logger.ts';
+
+/**
+ * Extracts the final session data from an exported file
+ * @param {Object} exported - Parsed file contents
+ * @returns {Object} Final session data
+ */
+function extractSessionData(exported: Record<string, any>): ReplaySessionData {
+  const raw = exported.session_data ?? exported.sessionData ?? exported;
+  return typeof raw === 'string' ? JSON.parse(raw) : raw;
+}
+
+const file = process.argv[2];
+
+if (!file) {
+  logger.error('Usage: bun run replay.ts <session.json>');
+  process.exit(1);
+}
+
+let sessionData: ReplaySessionData;
+try {
+  sessionData = extractSessionData(JSON.parse(readFileSync(file, 'utf8')));
+} catch (error) {
+  logger.error(`Could not read session file ${file}:`, (error as Error).message);
+  process.exit(1);
+}
+
+logger.section(`Replaying session ${sessionData.appSessionId || file}`);
+logger.info(`Moves recorded: ${(sessionData.moves || []).length}`);
+
+const report = verifySessionReplay(sessionData);
+
+logger.data('Recorded outcome', report.recorded);
+logger.data('Replayed outcome', report.replayed);
+
+if (report.success) {
+  logger.success(`Verified: replay with seed ${report.seed} reproduces the recorded outcome`);
+  process.exit(0);
+}
+
+report.errors.forEach(error => logger.error(error));
+logger.error('Verification failed');
+process.exit(1);
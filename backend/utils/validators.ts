@@ -2,13 +2,25 @@
  * Validators for game inputs
  */
 import { isAddress } from 'viem';
+import { CHARACTER_CLASSES, DUNGEON_TYPES, DIRECTIONS, MOVE_VECTORS, GRID_WIDTH, GRID_HEIGHT } from '../game/game-constants.ts';
+import { PERKS } from '../game/game-progression.ts';
+
+/**
+ * A parsed client message payload, of any shape until validated
+ */
+type Payload = any;
+
+/**
+ * Result of a payload validation
+ */
+export type ValidationResult = { success: true } | { success: false; error: string };
 
 /**
  * Validates Ethereum address format
  * @param {string} address - Ethereum address to validate
  * @returns {boolean} True if the address is valid
  */
-export function isValidEthereumAddress(address) {
+export function isValidEthereumAddress(address: string): boolean {
   // Check if it's a string and matches Ethereum address pattern (0x followed by 40 hex chars)
   return isAddress(address);
 }
@@ -18,32 +30,71 @@ export function isValidEthereumAddress(address) {
  * @param {string} roomId - Room ID to validate
  * @returns {boolean} True if the room ID is valid
  */
-export function isValidRoomId(roomId) {
+export function isValidRoomId(roomId: unknown): boolean {
   // Basic UUID v4 format check
   return typeof roomId === 'string'
     && /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(roomId);
 }
 
 /**
- * Validates snake direction format
- * @param {string} direction - Direction ('UP', 'DOWN', 'LEFT', 'RIGHT')
+ * Validates direction format
+ * @param {string} direction - Direction ('UP', 'DOWN', 'LEFT', 'RIGHT' or a diagonal such as 'UP_LEFT')
  * @returns {boolean} True if the direction is valid
  */
-export function isValidDirection(direction) {
-  return typeof direction === 'string' && ['UP', 'DOWN', 'LEFT', 'RIGHT'].includes(direction);
+export function isValidDirection(direction: unknown): boolean {
+  return typeof direction === 'string' && Object.values(DIRECTIONS).includes(direction);
 }
 
+/**
+ * Validates player-supplied seed entropy
+ * @param {string} entropy - Entropy string chosen by the player
+ * @returns {boolean} True if the entropy is valid
+ */
+export function isValidEntropy(entropy: unknown): boolean {
+  return typeof entropy === 'string' && entropy.length > 0 && entropy.length <= 128;
+}
 
+/**
+ * Validates a character class ID
+ * @param {string} characterClass - Class ID ('warrior', 'rogue', 'mage')
+ * @returns {boolean} True if the class exists
+ */
+export function isValidCharacterClass(characterClass: unknown): boolean {
+  return typeof characterClass === 'string' && Object.values(CHARACTER_CLASSES).includes(characterClass);
+}
+
+/**
+ * Validates a dungeon type
+ * @param {string} dungeonType - Dungeon type ('classic', 'catacombs', 'caverns', 'mixed')
+ * @returns {boolean} True if the dungeon type exists
+ */
+export function isValidDungeonType(dungeonType: unknown): boolean {
+  return typeof dungeonType === 'string' && Object.values(DUNGEON_TYPES).includes(dungeonType);
+}
+
+/**
+ * Validates a perk ID
+ * @param {string} perk - Perk ID ('toughness', 'precision', 'brutality', 'iron_skin')
+ * @returns {boolean} True if the perk exists
+ */
+export function isValidPerk(perk: unknown): boolean {
+  return typeof perk === 'string' && Object.keys(PERKS).includes(perk);
+}
 
 /**
  * Validates join room payload
  * @param {object} payload - The payload to validate
  * @param {string} payload.roomId - Room ID
  * @param {string} payload.eoa - Ethereum address
+ * @param {string} payload.sessionKey - Session key address used to sign moves
+ * @param {string} payload.sessionKeySignature - EOA signature authorizing the session key
+ * @param {number} payload.sessionKeyExpiresAt - Expiry of the authorization (ms since epoch)
+ * @param {string} [payload.characterClass] - Class the player will play
+ * @param {string} [payload.dungeonType] - Layout family of the run
  * @param {number} payload.betAmount - Bet amount
  * @returns {object} Validation result with success flag and optional error message
  */
-export function validateJoinRoomPayload(payload) {
+export function validateJoinRoomPayload(payload: Payload) {
   if (!payload || typeof payload !== 'object') {
     return { success: false, error: 'Invalid payload format' };
   }
@@ -57,6 +108,30 @@ export function validateJoinRoomPayload(payload) {
     return { success: false, error: 'Invalid Ethereum address format' };
   }
 
+  // Session key validation (moves are signed with it)
+  if (!payload.sessionKey) {
+    return { success: false, error: 'Session key address is required' };
+  }
+
+  if (!isValidEthereumAddress(payload.sessionKey)) {
+    return { success: false, error: 'Invalid session key address format' };
+  }
+
+  if (typeof payload.sessionKeySignature !== 'string' || !/^0x[0-9a-fA-F]{130}$/.test(payload.sessionKeySignature)) {
+    return { success: false, error: 'Session key signature is required' };
+  }
+
+  if (!Number.isSafeInteger(payload.sessionKeyExpiresAt)) {
+    return { success: false, error: 'Session key authorization expiry is required' };
+  }
+
+  if (payload.characterClass !== undefined && !isValidCharacterClass(payload.characterClass)) {
+    return { success: false, error: 'Invalid character class' };
+  }
+
+  if (payload.dungeonType !== undefined && !isValidDungeonType(payload.dungeonType)) {
+    return { success: false, error: 'Invalid dungeon type' };
+  }
 
 
   // Room ID validation
@@ -83,7 +158,7 @@ export function validateJoinRoomPayload(payload) {
  * @param {string} payload.direction - Direction ('UP', 'DOWN', 'LEFT', 'RIGHT')
  * @returns {object} Validation result with success flag and optional error message
  */
-export function validateDirectionPayload(payload) {
+export function validateDirectionPayload(payload: Payload): ValidationResult {
   if (!payload || typeof payload !== 'object') {
     return { success: false, error: 'Invalid payload format' };
   }
@@ -101,8 +176,221 @@ export function validateDirectionPayload(payload) {
   }
 
   if (!isValidDirection(payload.direction)) {
-    return { success: false, error: 'Invalid direction format (must be UP, DOWN, LEFT, or RIGHT)' };
+    return { success: false, error: 'Invalid direction format (must be UP, DOWN, LEFT, RIGHT, UP_LEFT, UP_RIGHT, DOWN_LEFT or DOWN_RIGHT)' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates the common part of a signed player action payload
+ * @param {object} payload - The payload to validate
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateActionPayload(payload: Payload): ValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return { success: false, error: 'Invalid payload format' };
+  }
+
+  if (!Number.isSafeInteger(payload.seq) || payload.seq < 1) {
+    return { success: false, error: 'Move sequence number is required' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates move payload
+ * @param {object} payload - The payload to validate
+ * @param {number} payload.x - Horizontal step (-1, 0 or 1)
+ * @param {number} payload.y - Vertical step (-1, 0 or 1)
+ * @param {number} payload.seq - Per-player move sequence number (signed with the move)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateMovePayload(payload: Payload): ValidationResult {
+  const validation = validateActionPayload(payload);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (!Number.isInteger(payload.x) || !Number.isInteger(payload.y)) {
+    return { success: false, error: 'Move vector is required' };
+  }
+
+  if (!MOVE_VECTORS.some(d => d.x === payload.x && d.y === payload.y)) {
+    return { success: false, error: 'Invalid move vector' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates an inventory action payload (pickup, useItem, drop)
+ * @param {object} payload - The payload to validate
+ * @param {string} [payload.itemId] - Item the action applies to
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @param {boolean} [itemRequired=true] - Whether itemId must be present
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateItemPayload(payload: Payload, itemRequired = true): ValidationResult {
+  const validation = validateActionPayload(payload);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (payload.itemId === undefined && !itemRequired) {
+    return { success: true };
+  }
+
+  if (typeof payload.itemId !== 'string' || payload.itemId.length === 0 || payload.itemId.length > 64) {
+    return { success: false, error: 'Item ID is required' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates a choosePerk payload
+ * @param {object} payload - The payload to validate
+ * @param {string} payload.perk - Perk ID
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validatePerkPayload(payload: Payload): ValidationResult {
+  const validation = validateActionPayload(payload);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (payload.perk === undefined) {
+    return { success: false, error: 'Perk is required' };
+  }
+
+  if (!isValidPerk(payload.perk)) {
+    return { success: false, error: 'Invalid perk' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates start game payload (optional, the payload may be omitted)
+ * @param {object} [payload] - The payload to validate
+ * @param {string} [payload.characterClass] - Class the player will play
+ * @param {string} [payload.dungeonType] - Layout family of the run
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateStartGamePayload(payload: Payload): ValidationResult {
+  if (payload === undefined || payload === null) {
+    return { success: true };
+  }
+
+  if (typeof payload !== 'object') {
+    return { success: false, error: 'Invalid payload format' };
+  }
+
+  if (payload.characterClass !== undefined && !isValidCharacterClass(payload.characterClass)) {
+    return { success: false, error: 'Invalid character class' };
+  }
+
+  if (payload.dungeonType !== undefined && !isValidDungeonType(payload.dungeonType)) {
+    return { success: false, error: 'Invalid dungeon type' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates a useAbility payload
+ * @param {object} payload - The payload to validate
+ * @param {string} [payload.direction] - Target direction, for directed abilities
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateAbilityPayload(payload: Payload): ValidationResult {
+  const validation = validateActionPayload(payload);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (payload.direction !== undefined && !isValidDirection(payload.direction)) {
+    return { success: false, error: 'Invalid direction format (must be UP, DOWN, LEFT, RIGHT, UP_LEFT, UP_RIGHT, DOWN_LEFT or DOWN_RIGHT)' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates a closeDoor payload
+ * @param {object} payload - The payload to validate
+ * @param {string} payload.direction - Direction of the door to close
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateDoorPayload(payload: Payload): ValidationResult {
+  const validation = validateActionPayload(payload);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (!isValidDirection(payload.direction)) {
+    return { success: false, error: 'Invalid direction format (must be UP, DOWN, LEFT, RIGHT, UP_LEFT, UP_RIGHT, DOWN_LEFT or DOWN_RIGHT)' };
   }
 
   return { success: true };
-}
\ No newline at end of file
+}
+
+/**
+ * Validates a target payload
+ * @param {object} payload - The payload to validate
+ * @param {number} payload.x - Target tile X coordinate
+ * @param {number} payload.y - Target tile Y coordinate
+ * @param {string} [payload.itemId] - Wand to shoot with
+ * @param {boolean} [payload.ability] - Shoot with the class ability
+ * @param {number} payload.seq - Per-player action sequence number (signed with the action)
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateTargetPayload(payload: Payload): ValidationResult {
+  const validation = validateItemPayload(payload, false);
+  if (!validation.success) {
+    return validation;
+  }
+
+  if (!Number.isInteger(payload.x) || payload.x < 0 || payload.x >= GRID_WIDTH
+    || !Number.isInteger(payload.y) || payload.y < 0 || payload.y >= GRID_HEIGHT) {
+    return { success: false, error: 'Target must be a tile on the map' };
+  }
+
+  if (payload.ability !== undefined && typeof payload.ability !== 'boolean') {
+    return { success: false, error: 'Ability must be a boolean' };
+  }
+
+  if (payload.ability && payload.itemId !== undefined) {
+    return { success: false, error: 'Target with an item or the ability, not both' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates a resync payload (optional, the payload may be omitted)
+ * @param {object} [payload] - The payload to validate
+ * @param {number} [payload.seq] - Last state sequence number the client applied
+ * @returns {object} Validation result with success flag and optional error message
+ */
+export function validateResyncPayload(payload: Payload): ValidationResult {
+  if (payload === undefined || payload === null) {
+    return { success: true };
+  }
+
+  if (typeof payload !== 'object') {
+    return { success: false, error: 'Invalid payload format' };
+  }
+
+  if (payload.seq !== undefined && (!Number.isSafeInteger(payload.seq) || payload.seq < 0)) {
+    return { success: false, error: 'Invalid sequence number' };
+  }
+
+  return { success: true };
+}
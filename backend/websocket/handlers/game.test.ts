@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { ethers } from 'ethers';
+import { createRoomManager } from '../../game/rooms.ts';
+import { createGame } from '../../game/game-init.ts';
+import { DIRECTION_VECTORS } from '../../game/game-constants.ts';
+import { handleMove } from './game.ts';
+import type { RoomManager } from '../../game/rooms.ts';
+import type { GameState } from '../../game/game-constants.ts';
+import type { ActionPayload, HandlerContext } from './game.ts';
+
+const PLAYER_EOA = '0x1111111111111111111111111111111111111111';
+
+// Signs { type, payload } the way the client's createECDSAMessageSigner does
+function signAction(wallet: ethers.Wallet, type: string, payload: ActionPayload): string {
+  return wallet.signingKey.sign(ethers.id(JSON.stringify({ type, payload }))).serialized;
+}
+
+// A step from the player onto a free floor tile
+function freeStep(gameState: GameState) {
+  const { player } = gameState;
+  const step = DIRECTION_VECTORS.find(d => gameState.map.map[player.x + d.x]?.[player.y + d.y] === 0
+    && !gameState.actorMap[(player.x + d.x) + '_' + (player.y + d.y)]);
+  if (!step) {
+    throw new Error('The player is walled in');
+  }
+  return step;
+}
+
+describe('handleMove', () => {
+  let sessionKey: ethers.Wallet;
+  let roomManager: RoomManager;
+  let ws: { id?: string; readyState: number; messages: Array<{ type: string }>; send(data: string): void };
+  let errors: Array<{ code: string; msg: string }>;
+  let context: HandlerContext;
+  let gameState: GameState;
+
+  beforeEach(() => {
+    sessionKey = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+    roomManager = createRoomManager();
+    ws = {
+      readyState: 1,
+      messages: [],
+      send(data) {
+        this.messages.push(JSON.parse(data));
+      }
+    };
+    errors = [];
+    context = {
+      roomManager,
+      connections: new Map(),
+      sendError: (socket, code, msg) => errors.push({ code, msg })
+    };
+
+    const roomId = roomManager.createRoom(ws);
+    roomManager.joinRoom(roomId, PLAYER_EOA, ws, sessionKey.address);
+    gameState = createGame(PLAYER_EOA, { seed: 1 });
+    roomManager.rooms.get(roomId).gameState = gameState;
+  });
+
+  test('plays a move signed by the registered session key', async () => {
+    const { x, y } = freeStep(gameState);
+    const payload = { x, y, seq: 1 };
+
+    await handleMove(ws, payload, context, signAction(sessionKey, 'move', payload));
+
+    expect(errors).toEqual([]);
+    expect(ws.messages.map(message => message.type)).toContain('game:delta');
+  });
+
+  test('rejects a move signed by another key', async () => {
+    const payload = { x: 0, y: 1, seq: 1 };
+    const otherKey = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+
+    await handleMove(ws, payload, context, signAction(otherKey, 'move', payload));
+
+    expect(errors).toEqual([{ code: 'NOT_AUTHENTICATED', msg: 'Move not signed by the player session key' }]);
+    expect(ws.messages).toEqual([]);
+  });
+
+  test('rejects a move without a signature', async () => {
+    await handleMove(ws, { x: 0, y: 1, seq: 1 }, context);
+
+    expect(errors).toEqual([{ code: 'NOT_AUTHENTICATED', msg: 'Move signature is required' }]);
+  });
+
+  test('rejects a signed move that is sent again', async () => {
+    const payload = { x: 0, y: 1, seq: 1 };
+    const signature = signAction(sessionKey, 'move', payload);
+
+    await handleMove(ws, payload, context, signature);
+    await handleMove(ws, payload, context, signature);
+
+    expect(errors).toEqual([{ code: 'NOT_AUTHENTICATED', msg: 'Move sequence number already used' }]);
+  });
+
+  test('rejects a sequence number lower than the last one used', async () => {
+    const first = { x: 0, y: 1, seq: 5 };
+    const second = { x: 0, y: -1, seq: 3 };
+
+    await handleMove(ws, first, context, signAction(sessionKey, 'move', first));
+    await handleMove(ws, second, context, signAction(sessionKey, 'move', second));
+
+    expect(errors).toEqual([{ code: 'NOT_AUTHENTICATED', msg: 'Move sequence number already used' }]);
+  });
+});
@@ -10,7 +10,9 @@
  *    Host → startGame → Generate app session → Collect signatures → Start
  *
  * 2. GAMEPLAY:
- *    Player → move → Update position → Broadcast state
+ *    Player → move → Update position → Enemy turns → Broadcast delta
+ *    Player → descend → Next floor → Enemy turns → Broadcast delta
+ *    Player → resync → Snapshot sent back (after a gap in delta sequence numbers)
  *
  * 3. SIGNATURES:
  *    Guest → appSession:signature → Store signature → Request host signature
@@ -19,21 +21,50 @@
  * KEY HANDLERS:
  * - handleStartGame(): Initiates signature collection flow
  * - handleMove(): Updates player's position
+ * - handleDescend(): Takes the stairs to the next floor
+ * - handleResync(): Resends the full state to one client
  * - handleAppSessionSignature(): Collects player signatures
  * ============================================================================
  */
 
 import {
-  formatGameState,
+  formatSnapshot,
+  formatDelta,
   formatGameOverMessage,
-  createGame
+  hashGameState,
+  createGame,
+  ACTIONS
 } from '../../game/snake.ts';
 import {
   closeAppSession,
   hasAppSession,
-  addMoveToSession
+  addMoveToSession,
+  getRunSeed,
+  getSessionCharacterClass,
+  getSessionDungeonType
 } from '../../nitrolite/appSessions.ts';
+import { recoverMessageSigner } from '../../nitrolite/signer.ts';
+import { validateMovePayload, validateActionPayload, validateItemPayload, validatePerkPayload, validateAbilityPayload, validateDoorPayload, validateTargetPayload, validateStartGamePayload, validateResyncPayload } from '../../utils/validators.ts';
 import logger from '../../utils/logger.ts';
+import type { PlayerAction } from '../../game/game-movement.ts';
+import type { PlayerConnection, PlayerSocket, RoomManager } from '../../game/rooms.ts';
+
+/**
+ * Application context shared by the message handlers (see index.ts)
+ */
+export interface HandlerContext {
+  roomManager: RoomManager;
+  connections: Map<string, unknown>;
+  sendError: (ws: PlayerSocket, code: string, msg: string) => void;
+}
+
+/**
+ * Payload of a signed player action message (fields depend on the action type)
+ */
+export interface ActionPayload extends Omit<PlayerAction, 'type'> {
+  roomId?: string; // Defaults to the room the socket joined
+  seq: number;     // Per-player action sequence number
+}
 
 /**
  * Handles a start game request
@@ -45,6 +76,11 @@ import logger from '../../utils/logger.ts';
 let ID = 1;
 export async function handleStartGame(ws, payload, { roomManager, connections, sendError }) {
   console.log(`🎯 handleStartGame called for payload:`, payload);
+  const validation = validateStartGamePayload(payload);
+  if (!validation.success) {
+    return sendError(ws, 'INVALID_PAYLOAD', validation.error);
+  }
+
   if (!ws.id) {
     ws.id = ID++;
   }
@@ -63,7 +99,7 @@ export async function handleStartGame(ws, payload, { roomManager, connections, s
   // Get the room
   let room = roomManager.rooms.get(ws.id);
   if (!room) {
-    room = roomManager.createRoom(ws);
+    room = roomManager.rooms.get(roomManager.createRoom(ws));
   }
 
   // Set host if not set
@@ -75,7 +111,30 @@ export async function handleStartGame(ws, payload, { roomManager, connections, s
   if (!room.gameState) {
     console.log(`🎮 Creating game state for room ${ws.id}`);
     // Pass host and guest (if any)
-    room.gameState = createGame(room.playereoa);
+    // Use the committed seed when an app session exists for this room
+    // The class recorded in the app session is the one the player paid for
+    const sessionClass = getSessionCharacterClass(ws.id);
+    const requestedClass = payload?.characterClass;
+    if (sessionClass && requestedClass && requestedClass !== sessionClass) {
+      return sendError(ws, 'CLASS_MISMATCH', `Session was opened for a ${sessionClass}`);
+    }
+    const characterClass = sessionClass || requestedClass || room.characterClass || undefined;
+
+    // Same for the dungeon type
+    const sessionDungeonType = getSessionDungeonType(ws.id);
+    const requestedDungeonType = payload?.dungeonType;
+    if (sessionDungeonType && requestedDungeonType && requestedDungeonType !== sessionDungeonType) {
+      return sendError(ws, 'DUNGEON_TYPE_MISMATCH', `Session was opened for the ${sessionDungeonType} dungeon`);
+    }
+    const dungeonType = sessionDungeonType || requestedDungeonType || room.dungeonType || undefined;
+
+    const runSeed = getRunSeed(ws.id);
+    room.gameState = createGame(room.playereoa, {
+      seed: runSeed?.seed,
+      seedCommitment: runSeed?.commitment,
+      characterClass,
+      dungeonType
+    });
     console.log(`✅ Game state created:`, ws.id);
   } else {
     console.log(`♻️ Game state already exists for room ${ws.id}`);
@@ -84,11 +143,11 @@ export async function handleStartGame(ws, payload, { roomManager, connections, s
 
   // App session is created via signature collection flow (see room.js and server.js)
 
-  // Broadcast game started
+  // Broadcast game started, with the only full state (explored map included) of the game
   roomManager.broadcastToRoom(
     roomId,
     'game:started',
-    { gameState: formatGameState(room.gameState, roomId) }
+    { gameState: formatSnapshot(room.sync, room.gameState, roomId) }
   );
 
   // Start the automatic movement game loop
@@ -99,13 +158,6 @@ export async function handleStartGame(ws, payload, { roomManager, connections, s
   startGameOverDetectionLoop(roomId, roomManager);
 
   console.log(`🚀 Game started for room ${roomId}`);
-
-  // Send the initial game state
-  roomManager.broadcastToRoom(
-    roomId,
-    'room:state',
-    formatGameState(room.gameState, roomId)
-  );
 }
 
 /**
@@ -132,20 +184,23 @@ async function handleGameOverAppSession(roomId, gameState, roomManager) {
     // Determine winner EOA
     let winnerEOA = null;
     if (gameState.winner === 'player1') {
-      winnerEOA = room.players.host;
-      logger.game(`Winner: Player 1 (${winnerEOA})`);
+      winnerEOA = room.players.host || gameState.playereoa;
+      logger.game(`Winner: Player 1 (${winnerEOA}) - ${gameState.endCondition}`);
     } else {
-      logger.game(`Game ended in a tie`);
+      logger.game(`Player lost - ${gameState.endCondition}`);
     }
 
     // Prepare game data for session_data
+    const gameOver = formatGameOverMessage(gameState);
     const gameData = {
-      endCondition: gameState.winner ? 'collision' : 'tie',
+      endCondition: gameOver.endCondition,
       finalScores: {
-        // Roguelike might not have scores in the same way, but we can adapt
-        player: 0, // Placeholder
+        level: gameOver.level,
+        xp: gameOver.xp,
+        playerHp: gameOver.playerHp,
+        enemiesLeft: gameOver.enemiesLeft
       },
-      gameTime: gameState.gameTime
+      gameTime: gameOver.gameTime
     };
 
     logger.data('Final game data:', gameData);
@@ -229,87 +284,216 @@ export function startGameOverDetectionLoop(roomId, roomManager) {
 }
 
 /**
- * Handles a direction change request
+ * Validates the payload of a player action message by type
+ * @param {string} type - Message type ('move', 'pickup', ...)
+ * @param {Object} payload - Action payload
+ * @returns {Object} Validation result with success flag and optional error message
+ */
+function validateActionTypePayload(type: string, payload: ActionPayload) {
+  switch (type) {
+    case ACTIONS.MOVE:
+      return validateMovePayload(payload);
+    case ACTIONS.PICKUP:
+      return validateItemPayload(payload, false);
+    case ACTIONS.USE_ITEM:
+    case ACTIONS.DROP:
+      return validateItemPayload(payload);
+    case ACTIONS.CHOOSE_PERK:
+      return validatePerkPayload(payload);
+    case ACTIONS.USE_ABILITY:
+      return validateAbilityPayload(payload);
+    case ACTIONS.CLOSE_DOOR:
+      return validateDoorPayload(payload);
+    case ACTIONS.TARGET:
+      return validateTargetPayload(payload);
+    default:
+      return validateActionPayload(payload);
+  }
+}
+
+/**
+ * Authenticates a signed action message.
+ * The client signs { type, payload } with the session key it registered on
+ * joinRoom; payload.seq must increase with every action so a captured
+ * message cannot be replayed.
+ * @param {Object} room - Room the action is for
  * @param {WebSocket} ws - WebSocket connection
+ * @param {string} type - Message type ('move', 'descend', ...)
+ * @param {Object} payload - Signed action payload
+ * @param {string|null} signature - Client signature
+ * @returns {Object} Result with player EOA, or error code and message
+ */
+function authenticateAction(
+  room: { connections: Map<string, PlayerConnection> },
+  ws: PlayerSocket,
+  type: string,
+  payload: ActionPayload,
+  signature: string | null
+): { success: true; playerEoa: string } | { success: false; code: string; error: string } {
+  // Find the player EOA
+  let playerEoa: string | null = null;
+  let playerConnection: PlayerConnection | null = null;
+  for (const [eoa, connection] of room.connections.entries()) {
+    if (connection.ws === ws) {
+      playerEoa = eoa;
+      playerConnection = connection;
+      break;
+    }
+  }
+
+  if (!playerEoa || !playerConnection?.sessionKey) {
+    return { success: false, code: 'NOT_AUTHENTICATED', error: 'Player not authenticated' };
+  }
+
+  if (!signature) {
+    return { success: false, code: 'NOT_AUTHENTICATED', error: 'Move signature is required' };
+  }
+
+  const signer = recoverMessageSigner({ type, payload }, signature);
+  if (signer !== playerConnection.sessionKey) {
+    return { success: false, code: 'NOT_AUTHENTICATED', error: 'Move not signed by the player session key' };
+  }
+
+  if (payload.seq <= playerConnection.lastMoveSeq) {
+    return { success: false, code: 'NOT_AUTHENTICATED', error: 'Move sequence number already used' };
+  }
+
+  // The signed message is consumed even if the action itself is rejected
+  playerConnection.lastMoveSeq = payload.seq;
+
+  return { success: true, playerEoa };
+}
+
+/**
+ * Handles a signed player action: validates, authenticates, plays the turn,
+ * broadcasts the state delta and records the action in the app session
+ * @param {WebSocket} ws - WebSocket connection
+ * @param {string} type - Message type ('move', 'descend', ...)
  * @param {Object} payload - Request payload
  * @param {Object} context - Application context containing roomManager and connections
+ * @param {string} [signature] - Client signature of the message
  */
-export async function handleMove(ws, payload, { roomManager, connections, sendError }) {
+export async function handlePlayerAction(ws: PlayerSocket, type: string, payload: ActionPayload, { roomManager, sendError }: HandlerContext, signature: string | null = null) {
   // Validate payload
-  console.log(`🎯 handleMove called for payload:`, payload);
-  //if (!validation.success) {
-  //  return sendError(ws, 'INVALID_PAYLOAD', validation.error);
-  // }
-
-  // ... (validation logic is assumed to be before this or inside processDirectionChange, 
-  // but here we just handle the handler logic)
-
-  // Note: payload validation happens inside processDirectionChange partially, 
-  // but we should probably validate payload structure here.
-  // The original code extracted x,y from payload.
+  console.log(`🎯 handlePlayerAction called for ${type}:`, payload);
+  const validation = validateActionTypePayload(type, payload);
+  if (!validation.success) {
+    return sendError(ws, 'INVALID_PAYLOAD', validation.error);
+  }
 
-  const { roomId: payloadRoomId } = payload; // payload has x, y, roomId
+  const { roomId: payloadRoomId, seq, ...params } = payload; // payload has seq, optionally roomId, plus action fields
   const roomId = payloadRoomId || ws.id;
 
   if (!roomId) {
     return sendError(ws, 'INVALID_PAYLOAD', 'Room ID is required');
   }
-  let playerEoa = null;
-  /*
-    // Find the player EOA
-    for (const [eoa, connection] of connections.entries()) {
-      if (connection.ws === ws) {
-        playerEoa = eoa;
-        break;
-      }
-    }
-  
-    if (!playerEoa) {
-      return sendError(ws, 'NOT_AUTHENTICATED', 'Player not authenticated');
-    }
-      */
 
-  // Process the move
-  const result = roomManager.processDirectionChange(roomId, payload, playerEoa);
+  const room = roomManager.rooms.get(roomId);
+  if (!room) {
+    return sendError(ws, 'MOVE_FAILED', 'Room not found');
+  }
+
+  // Verify the action was signed by the player's session key
+  const auth = authenticateAction(room, ws, type, payload, signature);
+  if (!auth.success) {
+    logger.warn(`Rejected ${type} for room ${roomId}: ${auth.error}`);
+    return sendError(ws, auth.code, auth.error);
+  }
+  const playerEoa = auth.playerEoa;
+
+  // Process the action
+  const result = type === ACTIONS.MOVE
+    ? roomManager.processDirectionChange(roomId, payload, playerEoa)
+    : roomManager.processAction(roomId, { ...params, type }, playerEoa);
 
   if (!result.success) {
-    // ignore too fast errors
-    if (result.error === 'TOO_FAST') {
-      return;
-    }
     // Only send error if it's a critical failure, otherwise just ignore invalid moves
     // to avoid spamming the client
     if (result.error === 'Room not found' || result.error === 'Game has not started') {
       return sendError(ws, 'MOVE_FAILED', result.error);
     }
+    // Other actions are deliberate, tell the player why they failed
+    if (type !== ACTIONS.MOVE) {
+      return sendError(ws, 'ACTION_FAILED', result.error);
+    }
     return;
   }
 
-  // Broadcast new state
+  // Broadcast what changed
   roomManager.broadcastToRoom(
     roomId,
-    'room:state',
-    formatGameState(result.gameState, roomId)
+    'game:delta',
+    formatDelta(room.sync, result.gameState, roomId)
   );
 
-  // We should probably get the room to get betAmount for formatting, although formatGameState might not use it for move updates.
-  // formatGameState uses it for initial state or full state.
-  const room = roomManager.rooms.get(roomId);
-  if (room) {
-    roomManager.broadcastToRoom(
-      roomId,
-      'room:state',
-      formatGameState(result.gameState, roomId)
-    );
-  }
-
-  // Track the move in the app session
+  // Track the action in the app session
   try {
-    // TODO addMoveToSession(roomId, playerEoa, direction);
+    addMoveToSession(roomId, playerEoa, {
+      type,
+      action: result.action,
+      direction: result.direction,
+      params: type === ACTIONS.MOVE ? undefined : params,
+      stateHash: hashGameState(result.gameState),
+      signature
+    });
   } catch (error) {
-    // logger.warn(`Failed to track move for room ${roomId}:`, error);
-    // Don't fail the direction change if move tracking fails
+    logger.warn(`Failed to track move for room ${roomId}:`, error);
+    // Don't fail the action if move tracking fails
   }
+}
+
+/**
+ * Handles a direction change request
+ * @param {WebSocket} ws - WebSocket connection
+ * @param {Object} payload - Request payload
+ * @param {Object} context - Application context containing roomManager and connections
+ * @param {string} [signature] - Client signature of the move message
+ */
+export async function handleMove(ws: PlayerSocket, payload: ActionPayload, context: HandlerContext, signature: string | null = null) {
+  return handlePlayerAction(ws, ACTIONS.MOVE, payload, context, signature);
+}
 
-  // Direction change processed - the automatic game loop will handle movement updates
-}
\ No newline at end of file
+/**
+ * Handles a request to take the stairs down
+ * @param {WebSocket} ws - WebSocket connection
+ * @param {Object} payload - Request payload
+ * @param {Object} context - Application context containing roomManager and connections
+ * @param {string} [signature] - Client signature of the descend message
+ */
+export async function handleDescend(ws: PlayerSocket, payload: ActionPayload, context: HandlerContext, signature: string | null = null) {
+  return handlePlayerAction(ws, ACTIONS.DESCEND, payload, context, signature);
+}
+
+/**
+ * Handles a resync request from a client that missed a state delta
+ * @param {WebSocket} ws - WebSocket connection
+ * @param {Object} [payload] - Request payload ({ roomId?, seq? })
+ * @param {Object} context - Application context containing roomManager and connections
+ */
+export async function handleResync(ws: PlayerSocket, payload: { roomId?: string; seq?: number } | undefined, { roomManager, sendError }: HandlerContext) {
+  const validation = validateResyncPayload(payload);
+  if (!validation.success) {
+    return sendError(ws, 'INVALID_PAYLOAD', validation.error);
+  }
+
+  const roomId = payload?.roomId || ws.id;
+  const room = roomId && roomManager.rooms.get(roomId);
+  if (!room) {
+    return sendError(ws, 'RESYNC_FAILED', 'Room not found');
+  }
+
+  if (![...room.connections.values()].some(connection => connection.ws === ws)) {
+    return sendError(ws, 'NOT_AUTHENTICATED', 'Player not in room');
+  }
+
+  if (!room.gameState) {
+    return sendError(ws, 'RESYNC_FAILED', 'Game has not started');
+  }
+
+  logger.ws(`Resync for room ${roomId} (client at seq ${payload?.seq ?? 'unknown'}, server at ${room.sync.seq})`);
+
+  ws.send(JSON.stringify({
+    type: 'room:state',
+    ...formatSnapshot(room.sync, room.gameState, roomId)
+  }));
+}
@@ -3,8 +3,9 @@
  */
 
 import { validateJoinRoomPayload } from '../../utils/validators.ts';
-import { formatGameState } from '../../game/snake.ts';
+import { formatSnapshot } from '../../game/snake.ts';
 import { generateAppSessionMessage } from '../../nitrolite/appSessions.ts';
+import { verifySessionKeyAuthorization } from '../../nitrolite/signer.ts';
 import logger from '../../utils/logger.ts';
 
 /**
@@ -20,9 +21,14 @@ export async function handleJoinRoom(ws, payload, { roomManager, connections, se
     return sendError(ws, 'INVALID_PAYLOAD', validation.error);
   }
 
-  const { roomId, eoa } = payload;
+  const { roomId, eoa, sessionKey, sessionKeySignature, sessionKeyExpiresAt, characterClass, dungeonType } = payload;
   console.log(`Processing ${validation.isCreating ? 'CREATE' : 'JOIN'} request for EOA: ${eoa}, roomId: ${roomId || 'NEW'}`);
 
+  // Only a session key the EOA itself authorized may sign its moves
+  if (!verifySessionKeyAuthorization(eoa, sessionKey, roomId, sessionKeyExpiresAt, sessionKeySignature)) {
+    return sendError(ws, 'NOT_AUTHENTICATED', 'Session key not authorized by the player or authorization expired');
+  }
+
   // Check if address is already connected
   if (connections.has(eoa)) {
     return sendError(ws, 'ALREADY_CONNECTED', 'Address already connected');
@@ -35,7 +41,7 @@ export async function handleJoinRoom(ws, payload, { roomManager, connections, se
     console.log(`Created new room with ID: ${newRoomId}`);
 
     // Join the newly created room as host
-    result = roomManager.joinRoom(newRoomId, eoa, ws);
+    result = roomManager.joinRoom(newRoomId, eoa, ws, sessionKey, characterClass, dungeonType);
 
     if (result.success) {
       console.log(`New room created: ${newRoomId} for player (host): ${eoa}`);
@@ -49,7 +55,7 @@ export async function handleJoinRoom(ws, payload, { roomManager, connections, se
     }
   } else {
     // Joining an existing room
-    result = roomManager.joinRoom(roomId, eoa, ws);
+    result = roomManager.joinRoom(roomId, eoa, ws, sessionKey, characterClass, dungeonType);
 
     if (result.success) {
       console.log(`Player ${eoa} joined room: ${roomId} as ${result.role}`);
@@ -71,7 +77,7 @@ export async function handleJoinRoom(ws, payload, { roomManager, connections, se
     roomManager.broadcastToRoom(
       result.roomId,
       'room:state',
-      formatGameState(room.gameState, result.roomId)
+      formatSnapshot(room.sync, room.gameState, result.roomId)
     );
   }
 
@@ -86,7 +92,9 @@ export async function handleJoinRoom(ws, payload, { roomManager, connections, se
     try {
       const appSessionMessage = await generateAppSessionMessage(
         result.roomId,
-        room.players.host
+        room.players.host,
+        room.characterClass || undefined,
+        room.dungeonType || undefined
       );
 
       logger.nitro(`Generated app session message for room ${result.roomId}`);
@@ -2,17 +2,57 @@
 import Phaser from 'phaser';
 import * as ROT from 'rot-js';
 import { getGameSocket } from '$lib/gamesocket';
-import { getStoredSessionKey } from '$lib/sessionutils';
+import { getStoredSessionKey, getSessionKeyAuthorizationMessage } from '$lib/sessionutils';
 import { createECDSAMessageSigner } from '@erc7824/nitrolite';
+import { get } from 'svelte/store';
+import { metamask } from '$lib/stores/metamask';
+import { receiveGameMessage } from '$lib/stores/game';
 
 
 const ROWS = 50;
 const COLS = 50;
-const ACTORS = 25;
 
-let isUpdating = false;
+// Decoration tiles for doors, traps and hazards (features sent in the server game state)
+const FEATURE_TILES = {
+    door: { open: 16, closed: 17 },
+    locked_door: { open: 16, closed: 22 },
+    trap: { open: 24, closed: 24 },
+    lava: { open: 29, closed: 29 },
+    water: { open: 30, closed: 30 }
+};
+
+// Movement keys (Phaser key code names): arrows, numpad, and y/u/b/n for the diagonals
+const MOVE_KEYS = {
+    LEFT: { x: -1, y: 0 },
+    RIGHT: { x: 1, y: 0 },
+    UP: { x: 0, y: -1 },
+    DOWN: { x: 0, y: 1 },
+    NUMPAD_FOUR: { x: -1, y: 0 },
+    NUMPAD_SIX: { x: 1, y: 0 },
+    NUMPAD_EIGHT: { x: 0, y: -1 },
+    NUMPAD_TWO: { x: 0, y: 1 },
+    NUMPAD_SEVEN: { x: -1, y: -1 },
+    NUMPAD_NINE: { x: 1, y: -1 },
+    NUMPAD_ONE: { x: -1, y: 1 },
+    NUMPAD_THREE: { x: 1, y: 1 },
+    Y: { x: -1, y: -1 },
+    U: { x: 1, y: -1 },
+    B: { x: -1, y: 1 },
+    N: { x: 1, y: 1 }
+};
+
+// How long the wallet's authorization of the session key stays usable (ms)
+const SESSION_KEY_AUTHORIZATION_TTL = 5 * 60 * 1000;
+
+// Map with nothing explored yet (the server sends null for unexplored tiles)
+function unexploredMap() {
+    return Array.from({ length: COLS }, () => new Array(ROWS).fill(null));
+}
 
-function socketMove(dir) {
+// Signed with every move, the server rejects numbers it has already seen
+let moveSeq = 0;
+
+function socketAction(type, fields = {}) {
     let socket = getGameSocket();
 
 
@@ -22,25 +62,43 @@ function socketMove(dir) {
     // DO NOT use createAppSessionMessage() - that creates a NEW message with NEW timestamp
     // The server already created the message, we just need to sign it
     const signer = createECDSAMessageSigner(existingSessionKey.privateKey);
-    console.log("Client signing requestToSign array:", { type: 'move', payload: dir });
+    const payload = { ...fields, seq: ++moveSeq };
+    console.log("Client signing requestToSign array:", { type, payload });
 
     // Sign the requestToSign array directly
-    signer({ type: 'move', payload: dir }).then((signature) => {
+    signer({ type, payload }).then((signature) => {
         console.log("Client signature created:", signature);
-        socket.send(JSON.stringify({ type: 'move', payload: dir, signature: signature }));
+        socket.send(JSON.stringify({ type, payload, signature: signature }));
     });
 }
 
+function socketMove(dir) {
+    socketAction('move', { x: dir.x, y: dir.y });
+}
+
 export default class Arena extends Phaser.Scene {
     constructor() {
         let socket = getGameSocket();
 
-        socket.addMessageListener((message) => {
-            console.log('message', message);
-        });
-
         const existingSessionKey = getStoredSessionKey();
 
+        // Register the session key that will sign our moves; the wallet signs
+        // its authorization so nobody else can register a key for our EOA
+        const { address: eoa } = get(metamask);
+        if (eoa) {
+            const sessionKey = existingSessionKey.address;
+            const sessionKeyExpiresAt = Date.now() + SESSION_KEY_AUTHORIZATION_TTL;
+            window.ethereum.request({
+                method: 'personal_sign',
+                params: [getSessionKeyAuthorizationMessage(eoa, sessionKey, undefined, sessionKeyExpiresAt), eoa]
+            }).then((sessionKeySignature) => {
+                socket.send(JSON.stringify({
+                    type: 'joinRoom',
+                    payload: { eoa, sessionKey, sessionKeySignature, sessionKeyExpiresAt }
+                }));
+            });
+        }
+
         // ✅ CRITICAL: Sign the EXACT requestToSign array that server sent
         // DO NOT use createAppSessionMessage() - that creates a NEW message with NEW timestamp
         // The server already created the message, we just need to sign it
@@ -53,37 +111,27 @@ export default class Arena extends Phaser.Scene {
             socket.send(JSON.stringify({ type: 'startGame', signature: signature }));
         });
 
-        ROT.RNG.setSeed(12345);
-
         super('Arena');
-        this.mapData = null;
+        this.floor = null; // Server game state: the latest snapshot with the deltas since applied
+        this.drawnFloor = null; // Explored map and features the tilemap was last drawn from (JSON)
         this.actorList = [];
         this.actorMap = {};
+        this.actorById = {};
         this.player = null;
         this.playerHUD = null;
         this.clickeable = true;
 
-        // Map helper object
+        // Map helper object. tiles is the explored map the server sent
+        // (tiles[x][y]: 0 floor, 1 wall, null unexplored)
         this.Map = {
-            tiles: null,
-            rotmap: null,
+            tiles: unexploredMap(),
             phaserMap: null,
             lightDict: {},
             scene: null, // Reference to scene
 
-            initMap: function (rotmap, phaserMap, scene) {
-                this.rotmap = rotmap;
+            initMap: function (phaserMap, scene) {
                 this.phaserMap = phaserMap;
                 this.scene = scene;
-                this.tiles = JSON.parse(JSON.stringify(rotmap.map));
-            },
-
-            canGo: function (actor, dir) {
-                return actor.x + dir.x >= 0 &&
-                    actor.x + dir.x < COLS &&
-                    actor.y + dir.y >= 0 &&
-                    actor.y + dir.y < ROWS &&
-                    this.tiles[actor.x + dir.x][actor.y + dir.y] === 0;
             },
 
             light: function () {
@@ -159,6 +207,43 @@ export default class Arena extends Phaser.Scene {
                 });
             }
         };
+
+        socket.addMessageListener((message) => this.onServerMessage(message));
+    }
+
+    // Keeps this.floor in sync with the server through the game store's
+    // receiveGameMessage (a gap in the delta sequence numbers asks for a snapshot)
+    onServerMessage(message) {
+        console.log('message', message);
+
+        if (message.type === 'game:over') {
+            this.showGameOver(message);
+            return;
+        }
+
+        const { gameState, missed } = receiveGameMessage(this.floor, message);
+        if (missed) {
+            getGameSocket().send(JSON.stringify({
+                type: 'resync',
+                payload: { roomId: message.roomId, seq: this.floor?.seq }
+            }));
+        } else if (gameState !== this.floor) {
+            // Snapshots repeat events already shown, deltas only carry new ones
+            if (message.type === 'game:delta') this.showEvents(message.events);
+            this.setFloor(gameState);
+        }
+    }
+
+    setFloor(floor) {
+        this.floor = floor;
+        this.Map.tiles = floor.map;
+
+        // Before create() the floor is drawn there
+        if (!this.Map.phaserMap) return;
+
+        // Redraw when a tile was explored or changed, or a door, trap or hazard did
+        if (JSON.stringify([floor.map, floor.features ?? []]) !== this.drawnFloor) this.drawFloor();
+        this.syncActors();
     }
 
     create() {
@@ -167,7 +252,8 @@ export default class Arena extends Phaser.Scene {
 
         this.HUD.scene = this;
 
-        const mapData = this.generateMap('ROTmap', COLS, ROWS, 32, 32);
+        const mapData = this.generateMap('ROTmap', COLS, ROWS, 32, 32, this.Map.tiles, this.floor?.features);
+        this.drawnFloor = JSON.stringify([this.Map.tiles, this.floor?.features ?? []]);
 
         // Add to cache
         this.cache.tilemap.add('ROTmap', { format: Phaser.Tilemaps.Formats.TILED_JSON, data: mapData });
@@ -188,20 +274,34 @@ export default class Arena extends Phaser.Scene {
         this.input.keyboard.on('keyup', (event) => this.onKeyUp(event));
         this.input.on('pointerdown', (pointer) => this.mouseCallback(pointer));
 
-        this.Map.initMap(this.mapData, map, this);
-        this.initActors();
-        this.Map.light();
-
         const style = { font: '16px monospace', fill: '#fff' };
-        this.playerHUD = this.add.text(0, 0, 'Player life: ' + this.actorList[0].hp, style);
+        this.playerHUD = this.add.text(0, 0, '', style);
         this.playerHUD.setScrollFactor(0); // Fixed to camera
         this.playerHUD.setPosition(500, 50);
+
+        this.Map.initMap(map, this);
+        this.Map.light();
+        if (this.floor) this.syncActors();
     }
 
-    generateMap(keyName, width, height, tilewidth, tileheight) {
-        const _map = new ROT.Map.Rogue(width, height);
-        this.mapData = _map; // Store ROT map reference
+    // Redraws the tilemap layers from the explored map and features the server sent
+    drawFloor() {
+        const features = this.floor?.features ?? [];
+        const mapData = this.generateMap('ROTmap', COLS, ROWS, 32, 32, this.Map.tiles, features);
+        this.drawnFloor = JSON.stringify([this.Map.tiles, features]);
+
+        for (const layer of mapData.layers) {
+            layer.data.forEach((tile, i) => {
+                this.Map.phaserMap.putTileAt(tile || -1, i % COLS, Math.floor(i / COLS), false, layer.name);
+            });
+        }
+
+        this.Map.computeLight();
+    }
 
+    // Builds the Tiled JSON map of a floor grid (grid[x][y]: 0 floor, 1 wall,
+    // null unexplored, drawn like a wall) with its doors, traps and hazards
+    generateMap(keyName, width, height, tilewidth, tileheight, grid, features = []) {
         const jsonmap = {
             layers: [{
                 data: new Array(width * height),
@@ -248,15 +348,17 @@ export default class Arena extends Phaser.Scene {
         const ARENA = 35;
         let tilepos;
 
-        _map.create((x, y, v) => {
-            jsonmap.layers[0].data[y * width + x] = (v === 1) ? 0 : ARENA;
-        });
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                jsonmap.layers[0].data[y * width + x] = (grid[x][y] === 0) ? ARENA : 0;
+            }
+        }
 
         const _exist = (x, y) => {
             return (
-                typeof _map.map[x] !== 'undefined'
-                && typeof _map.map[x][y] !== 'undefined'
-                && _map.map[x][y] === 0
+                typeof grid[x] !== 'undefined'
+                && typeof grid[x][y] !== 'undefined'
+                && grid[x][y] === 0
             ) ? '1' : '0';
         };
 
@@ -294,21 +396,22 @@ export default class Arena extends Phaser.Scene {
         addPattern('0010*0111', cbSetBackground(15));
         addPattern('*001*01*1', cbSetBackground(13));
 
+        // Picked by position rather than at random, so redraws keep them in place
         addPattern('*1****1*', () => {
             jsonmap.layers[0].data[tilepos] = ARENA;
             const f = [18, 23, 18];
-            jsonmap.layers[1].data[tilepos] = f[Math.floor((ROT.RNG.getUniform() * 3))];
+            jsonmap.layers[1].data[tilepos] = f[tilepos % 3];
         });
         addPattern('***1*1***', () => {
             jsonmap.layers[0].data[tilepos] = ARENA;
             const f = [18, 23, 18];
-            jsonmap.layers[1].data[tilepos] = f[Math.floor((ROT.RNG.getUniform() * 3))];
+            jsonmap.layers[1].data[tilepos] = f[tilepos % 3];
         });
 
-        for (let y = 0; y < _map._height; y++) {
-            for (let x = 0; x < _map._width; x++) {
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
                 jsonmap.layers[1].data.push(0);
-                if (_map.map[x][y] === 0) continue;
+                if (grid[x][y] === 0) continue;
 
                 tilepos = y * width + x;
 
@@ -326,11 +429,55 @@ export default class Arena extends Phaser.Scene {
             }
         }
 
+        // Features sit on floor tiles, drawn over the ground layer
+        for (const feature of features) {
+            const tiles = FEATURE_TILES[feature.type];
+            if (!tiles) continue;
+
+            tilepos = feature.y * width + feature.x;
+            jsonmap.layers[0].data[tilepos] = ARENA;
+            jsonmap.layers[1].data[tilepos] = feature.open ? tiles.open : tiles.closed;
+        }
+
         return jsonmap;
     }
 
+    // Targeting mode: the arrows move a cursor instead of the player, and the
+    // shot is sent as a 'target' action (range and line of fire are checked
+    // on the server)
+    startTargeting(fields = {}) {
+        this.targeting = { x: this.player.x, y: this.player.y, fields };
+        this.targetCursor = this.add.rectangle(this.player.x * 32, this.player.y * 32, 32, 32);
+        this.targetCursor.setStrokeStyle(2, 0xff4444);
+    }
+
+    moveTargetCursor(dir) {
+        this.targeting.x = Phaser.Math.Clamp(this.targeting.x + dir.x, 0, COLS - 1);
+        this.targeting.y = Phaser.Math.Clamp(this.targeting.y + dir.y, 0, ROWS - 1);
+        this.targetCursor.setPosition(this.targeting.x * 32, this.targeting.y * 32);
+    }
+
+    stopTargeting() {
+        this.targetCursor.destroy();
+        this.targetCursor = null;
+        this.targeting = null;
+    }
+
+    fireAtTarget() {
+        const { x, y, fields } = this.targeting;
+        this.stopTargeting();
+        socketAction('target', { x, y, ...fields });
+    }
+
     mouseCallback(pointer) {
-        if (this.clickeable && pointer.isDown) {
+        if (this.targeting && pointer.isDown) {
+            this.targeting.x = Math.round(pointer.worldX / 32);
+            this.targeting.y = Math.round(pointer.worldY / 32);
+            this.fireAtTarget();
+            return;
+        }
+
+        if (this.clickeable && pointer.isDown && this.player) {
             this.clickeable = false;
             this.time.delayedCall(400, () => { this.clickeable = true; });
 
@@ -350,214 +497,124 @@ export default class Arena extends Phaser.Scene {
     }
 
     onKeyUp(event) {
-        if (!this.actorList[0].isPlayer) return;
+        if (!this.player) return;
 
-        let acted = false;
         const codes = Phaser.Input.Keyboard.KeyCodes;
 
-        if (event.keyCode === codes.LEFT) acted = this.moveTo(this.player, { x: -1, y: 0 });
-        else if (event.keyCode === codes.RIGHT) acted = this.moveTo(this.player, { x: 1, y: 0 });
-        else if (event.keyCode === codes.UP) acted = this.moveTo(this.player, { x: 0, y: -1 });
-        else if (event.keyCode === codes.DOWN) acted = this.moveTo(this.player, { x: 0, y: 1 });
+        const key = Object.keys(MOVE_KEYS).find(name => codes[name] === event.keyCode);
+        const dir = key ? MOVE_KEYS[key] : null;
 
-
-
-        if (acted) {
-            this.Map.computeLight();
-            for (let i = 1; i < this.actorList.length; i++) {
-                this.aiAct(this.actorList[i]);
-            }
+        if (this.targeting) {
+            if (dir) this.moveTargetCursor(dir);
+            else if (event.keyCode === codes.ENTER || event.keyCode === codes.F || event.keyCode === codes.Z) this.fireAtTarget();
+            else if (event.keyCode === codes.ESC) this.stopTargeting();
+            return;
         }
-    }
-
-    moveTo(actor, dir) {
-        if (!this.Map.canGo(actor, dir)) return false;
-        if (isUpdating) return;
-
-
-        if (dir.x === 1) actor.sprite.setFrame(2);
-        else if (dir.x === -1) actor.sprite.setFrame(3);
-        else if (dir.y === -1) actor.sprite.setFrame(1);
-        else if (dir.y === 1) actor.sprite.setFrame(0);
-
-        const newKey = (actor.x + dir.x) + '_' + (actor.y + dir.y);
-
-        if (this.actorMap.hasOwnProperty(newKey) && this.actorMap[newKey]) {
-            const victim = this.actorMap[newKey];
-            if (!actor.isPlayer && !victim.isPlayer) return;
 
-            const damage = this.diceRoll('d8+2').total;
-            victim.hp -= damage;
-
-            const axis = (actor.x === victim.x) ? 'y' : 'x';
-            let moveDir = victim[axis] - actor[axis];
-            moveDir = moveDir / Math.abs(moveDir);
-
-            const pos1 = {}, pos2 = {};
-            pos1[axis] = actor.sprite[axis] + (moveDir * 15);
-            pos2[axis] = actor.sprite[axis] + (moveDir * 15 * -1);
-
-            this.cameras.main.stopFollow();
-            isUpdating = true;
+        // Where the player ends up (or whom they hit) is up to the server
+        if (dir) {
+            this.player.face(dir);
             socketMove(dir);
-
-            this.tweens.add({
-                targets: actor.sprite,
-                ...pos1,
-                duration: 100,
-                yoyo: true,
-                onComplete: () => {
-                    isUpdating = false;
-                    this.cameras.main.startFollow(actor.sprite);
-                }
-            });
-
-            const color = victim.isPlayer ? null : '#fff';
-            this.HUD.msg(damage.toString(), victim.sprite, 450, color);
-
-            if (victim.isPlayer) {
-                this.playerHUD.setText('Player life: ' + victim.hp);
-            }
-
-            if (victim.hp <= 0) {
-                victim.sprite.destroy();
-                delete this.actorMap[newKey];
-                this.actorList.splice(this.actorList.indexOf(victim), 1);
-                if (victim !== this.player) {
-                    if (this.actorList.length === 1) {
-                        const victory = this.add.text(
-                            this.cameras.main.centerX,
-                            this.cameras.main.centerY,
-                            'Victory!\nCtrl+r to restart', {
-                            fill: '#2e2',
-                            align: 'center'
-                        }
-                        );
-                        victory.setOrigin(0.5);
-                        victory.setScrollFactor(0);
-                    }
-                }
-            }
-        } else {
-            delete this.actorMap[actor.x + '_' + actor.y];
-            actor.setXY(actor.x + dir.x, actor.y + dir.y);
-            this.actorMap[actor.x + '_' + actor.y] = actor;
         }
-        return true;
+        // '>' takes the stairs down (resolved on the server)
+        else if (event.keyCode === codes.PERIOD) socketAction('descend');
+        // 'g' picks up whatever lies on the player's tile
+        else if (event.keyCode === codes.G) socketAction('pickup');
+        // 'f' aims the equipped bow, 'z' aims the class spell
+        else if (event.keyCode === codes.F) this.startTargeting();
+        else if (event.keyCode === codes.Z) this.startTargeting({ ability: true });
+        // Space waits a turn, 'r' rests until healed or an enemy shows up
+        else if (event.keyCode === codes.SPACE) socketAction('wait');
+        else if (event.keyCode === codes.R) socketAction('rest');
     }
 
-    initActors() {
-        this.actorList = [];
-        this.actorMap = {};
-
-        const validpos = [];
-        for (let x = 0; x < COLS; x++) {
-            for (let y = 0; y < ROWS; y++) {
-                if (!this.Map.tiles[x][y]) {
-                    validpos.push({ x: x, y: y });
-                }
+    // Moves the sprites to where the server has the actors: new actors get a
+    // sprite and actors gone from the state lose theirs (the player stays first)
+    syncActors() {
+        const serverActors = [...this.floor.actors].sort((a, b) => Number(!!b.isPlayer) - Number(!!a.isPlayer));
+
+        const actorById = {};
+        for (const serverActor of serverActors) {
+            let actor = this.actorById[serverActor.id];
+            if (!actor) {
+                actor = serverActor.isPlayer
+                    ? new Player(this, serverActor.x, serverActor.y)
+                    : new Enemy(this, serverActor.x, serverActor.y);
+            } else if (actor.x !== serverActor.x || actor.y !== serverActor.y) {
+                actor.setXY(serverActor.x, serverActor.y);
             }
+            actor.hp = serverActor.hp;
+            actorById[serverActor.id] = actor;
         }
 
-        for (let e = 0; e < ACTORS; e++) {
-            let x, y;
-            do {
-                const r = validpos[Math.floor(ROT.RNG.getUniform() * validpos.length)];
-                x = r.x;
-                y = r.y;
-            } while (this.actorMap[x + '_' + y]);
-
-            const actor = (e === 0)
-                ? new Player(this, x, y)
-                : new Enemy(this, x, y);
+        for (const [id, actor] of Object.entries(this.actorById)) {
+            if (!actorById[id]) actor.sprite.destroy();
+        }
 
+        this.actorById = actorById;
+        this.actorList = serverActors.map(serverActor => actorById[serverActor.id]);
+        this.actorMap = {};
+        for (const actor of this.actorList) {
             this.actorMap[actor.x + '_' + actor.y] = actor;
-            this.actorList.push(actor);
         }
 
-        this.player = this.actorList[0];
-        this.cameras.main.startFollow(this.player.sprite);
+        const player = this.actorList[0]?.isPlayer ? this.actorList[0] : null;
+        if (player && player !== this.player) this.cameras.main.startFollow(player.sprite);
+        this.player = player;
+        if (player) this.playerHUD.setText('Player life: ' + player.hp);
+
+        this.Map.computeLight();
     }
 
-    aiAct(actor) {
-        let directions = [
-            { x: -1, y: 0 },
-            { x: 1, y: 0 },
-            { x: 0, y: -1 },
-            { x: 0, y: 1 }
-        ];
-
-        const dx = this.player.x - actor.x;
-        const dy = this.player.y - actor.y;
-
-        const moveToRandomPos = () => {
-            const rndDirections = this.shuffleArray(directions);
-            for (let i = 0; i < rndDirections.length; i++) {
-                if (this.moveTo(actor, rndDirections[i])) break;
-            }
-        };
+    // Damage numbers over the actors hit by the attacks the server resolved
+    showEvents(events = []) {
+        for (const event of events) {
+            if (event.type !== 'attack') continue;
 
-        if (Math.abs(dx) + Math.abs(dy) > 6) {
-            moveToRandomPos();
-        } else {
-            directions = directions.map(e => {
-                return {
-                    x: e.x,
-                    y: e.y,
-                    dist: Math.pow(dx + e.x, 2) + Math.pow(dy + e.y, 2)
-                };
-            }).sort((a, b) => b.dist - a.dist);
+            const target = this.actorById[event.targetId];
+            if (!target) continue;
 
-            for (let d = 0; d < directions.length; d++) {
-                if (this.moveTo(actor, directions[d])) break;
-            }
-        }
+            const attacker = this.actorById[event.attackerId];
+            if (attacker && !event.ranged) this.lunge(attacker, target);
 
-        if (this.player.hp < 1) {
-            const gameOver = this.add.text(0, 0, 'Game Over\nCtrl+r to restart', { fill: '#e22', align: 'center' });
-            gameOver.setScrollFactor(0);
-            gameOver.setPosition(this.cameras.main.centerX, this.cameras.main.centerY);
-            gameOver.setOrigin(0.5);
+            const color = target.isPlayer ? null : '#fff';
+            this.HUD.msg(event.hit ? event.damage.toString() : 'miss', target.sprite, 450, color);
         }
     }
 
-    shuffleArray(array) {
-        for (let i = array.length - 1; i > 0; i--) {
-            const j = Math.floor(ROT.RNG.getUniform() * (i + 1));
-            [array[i], array[j]] = [array[j], array[i]];
-        }
-        return array;
+    // Bumps the attacker's sprite towards its target and back
+    lunge(attacker, target) {
+        this.tweens.add({
+            targets: attacker.sprite,
+            x: attacker.sprite.x + Math.sign(target.x - attacker.x) * 15,
+            y: attacker.sprite.y + Math.sign(target.y - attacker.y) * 15,
+            duration: 100,
+            yoyo: true
+        });
     }
 
-    diceRoll(data) {
-        data = ' ' + data;
-        const dataSplit = data.split(/-|\+|d/g);
-        let dices = parseInt(dataSplit[0], 10);
-        if (!dices) dices = 1;
-        const sides = parseInt(dataSplit[1], 10);
-
-        let number = 0;
-        for (let i = 0; i < dices; i++) {
-            number += 1 + Math.floor(ROT.RNG.getUniform() * sides);
-        }
-
-        let bonus = 0;
-        if (dataSplit[2]) {
-            bonus = parseInt(dataSplit[2], 10);
-            if (data.indexOf('-') > -1) bonus = bonus * -1;
+    // The server decides how the run ended
+    showGameOver(message) {
+        const text = this.add.text(
+            this.cameras.main.centerX,
+            this.cameras.main.centerY,
+            (message.winner ? 'Victory!' : 'Game Over') + '\nCtrl+r to restart', {
+            fill: message.winner ? '#2e2' : '#e22',
+            align: 'center'
         }
-
-        return { total: number + bonus };
+        );
+        text.setOrigin(0.5);
+        text.setScrollFactor(0);
     }
 }
 
+// Sprite of an actor in the server game state (position and hp come from the server)
 class Actor {
     constructor(scene, x, y, keySprite) {
-        this.hp = 3;
+        this.hp = 0;
         this.x = x;
         this.y = y;
         this.isPlayer = null;
-        this.damage = 'd8+2';
         this.scene = scene;
 
         if (scene) {
@@ -578,22 +635,25 @@ class Actor {
             ease: 'Linear'
         });
     }
+
+    face(dir) {
+        if (dir.x === 1) this.sprite.setFrame(2);
+        else if (dir.x === -1) this.sprite.setFrame(3);
+        else if (dir.y === -1) this.sprite.setFrame(1);
+        else if (dir.y === 1) this.sprite.setFrame(0);
+    }
 }
 
 class Player extends Actor {
     constructor(scene, x, y) {
         super(scene, x, y, 'hero');
-        this.hp = 30;
         this.isPlayer = true;
-        this.damage = 'd6+2';
     }
 }
 
 class Enemy extends Actor {
     constructor(scene, x, y) {
         super(scene, x, y, 'orc');
-        this.hp = 10;
         this.isPlayer = false;
-        this.damage = 'd4+2';
     }
 }
@@ -1,6 +1,6 @@
 // filepath: src/lib/utils.ts
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
-import { type Address } from 'viem';
+import { type Address, getAddress } from 'viem';
 
 export interface SessionKey {
     privateKey: `0x${string}`;
@@ -46,6 +46,18 @@ export const removeSessionKey = (): void => {
     }
 };
 
+// Message the wallet signs so the game server accepts moves signed by the session key
+// in the room joined (a new one without roomId), if it is used before expiresAt
+export const getSessionKeyAuthorizationMessage = (
+    eoa: string,
+    sessionKey: string,
+    roomId: string | undefined,
+    expiresAt: number
+): string =>
+    `Enter the Dungeon: authorize session key ${getAddress(sessionKey)} for ${getAddress(eoa)} to join ${
+        roomId ? `room ${roomId}` : 'a new room'
+    } before ${new Date(expiresAt).toISOString()}`;
+
 // JWT helpers
 const JWT_KEY = 'your_app_name_jwt_token';
 
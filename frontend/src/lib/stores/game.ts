@@ -1,6 +1,6 @@
 import { writable, derived } from 'svelte/store';
-import { lastMessage } from './websocket';
-import type { GameState, GameOver } from '../../types';
+import { lastMessage, websocket } from './websocket';
+import type { GameState, GameOver, GameActor, GameDeltaMessage, WebSocketMessages } from '../../types';
 
 interface GameStoreState {
 	gameState: GameState | null;
@@ -13,6 +13,48 @@ interface GameStoreState {
 	playerId: 'player1' | 'player2' | null;
 }
 
+// Applies a 'game:delta' to the state it was computed against
+const applyDelta = (gameState: GameState, delta: GameDeltaMessage): GameState => {
+	const { type, actors, tiles, map: floorMap, ...fields } = delta;
+
+	const removed = new Set(actors.removed);
+	const byId = new Map((gameState.actors ?? []).filter(a => !removed.has(a.id)).map(a => [a.id, a]));
+	for (const actor of actors.updated) {
+		byId.set(actor.id, { ...byId.get(actor.id), ...actor } as GameActor);
+	}
+
+	const map = floorMap ?? (gameState.map ?? []).map(column => [...column]);
+	for (const [x, y, tile] of tiles ?? []) {
+		map[x][y] = tile;
+	}
+
+	return { ...gameState, ...fields, actors: [...byId.values()], map };
+};
+
+// Folds a server message into the game state it follows: snapshots replace it,
+// deltas apply on top of it. A delta after a gap in the sequence numbers is not
+// applied and `missed` is set, so the caller can ask for a snapshot
+export const receiveGameMessage = (
+	gameState: GameState | null,
+	message: WebSocketMessages
+): { gameState: GameState | null; missed: boolean } => {
+	switch (message.type) {
+		case 'room:state':
+		case 'game:update':
+			// A room:state without a map only reports who is connected
+			return { gameState: message.map ? message : gameState, missed: false };
+		case 'game:started':
+			return { gameState: message.gameState ?? gameState, missed: false };
+		case 'game:delta':
+			if (!gameState || message.seq !== (gameState.seq ?? 0) + 1) {
+				return { gameState, missed: true };
+			}
+			return { gameState: applyDelta(gameState, message), missed: false };
+		default:
+			return { gameState, missed: false };
+	}
+};
+
 const createGameStore = () => {
 	const { subscribe, set, update } = writable<GameStoreState>({
 		gameState: null,
@@ -33,7 +75,7 @@ const createGameStore = () => {
 			case 'room:state':
 				update(state => ({
 					...state,
-					gameState: message as GameState,
+					gameState: receiveGameMessage(state.gameState, message).gameState,
 					roomId: message.roomId
 				}));
 				break;
@@ -58,14 +100,29 @@ const createGameStore = () => {
 			case 'game:started':
 				update(state => ({
 					...state,
-					isGameStarted: true
+					isGameStarted: true,
+					gameState: receiveGameMessage(state.gameState, message).gameState
 				}));
 				break;
 
+			case 'game:delta': {
+				// A delta only applies on top of the previous one: ask for a snapshot after a gap
+				let missed = false;
+				update(state => {
+					const received = receiveGameMessage(state.gameState, message);
+					missed = received.missed;
+					return { ...state, gameState: received.gameState };
+				});
+				if (missed) {
+					websocket.resync(message.roomId);
+				}
+				break;
+			}
+
 			case 'game:update':
 				update(state => ({
 					...state,
-					gameState: message as GameState
+					gameState: receiveGameMessage(state.gameState, message).gameState
 				}));
 				break;
 
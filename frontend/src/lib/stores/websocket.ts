@@ -84,6 +84,14 @@ const createWebSocketStore = () => {
 		});
 	};
 
+	// Asks for a full state after a gap in the delta sequence numbers
+	const resync = (roomId: string | null, seq?: number) => {
+		sendMessage({
+			type: 'resync',
+			payload: { roomId, seq }
+		});
+	};
+
 	const getAvailableRooms = () => {
 		sendMessage({
 			type: 'getAvailableRooms'
@@ -97,6 +105,7 @@ const createWebSocketStore = () => {
 		joinRoom,
 		changeDirection,
 		startGame,
+		resync,
 		getAvailableRooms
 	};
 };
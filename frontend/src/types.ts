@@ -1,6 +1,13 @@
 // Game types
-export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
-export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+export type Direction =
+	| 'UP'
+	| 'DOWN'
+	| 'LEFT'
+	| 'RIGHT'
+	| 'UP_LEFT'
+	| 'UP_RIGHT'
+	| 'DOWN_LEFT'
+	| 'DOWN_RIGHT';
 
 export interface Position {
 	x: number;
@@ -19,6 +26,32 @@ export interface Players {
 	player2: string;
 }
 
+export interface StatusEffect {
+	id: 'poison' | 'stun' | 'regen' | 'haste';
+	turns: number;
+	stacks: number;
+}
+
+export interface GameActor {
+	id: string;
+	x: number;
+	y: number;
+	hp: number;
+	effects?: StatusEffect[];
+	isBoss?: boolean;
+	phase?: number;
+	summonerId?: string;
+	[key: string]: unknown;
+}
+
+export interface GameFeature {
+	x: number;
+	y: number;
+	type: 'door' | 'locked_door' | 'trap' | 'lava' | 'water';
+	open: boolean;
+	trap?: 'spike' | 'poison_gas' | 'teleport' | 'alarm';
+}
+
 export interface GameState {
 	roomId: string;
 	snakes: {
@@ -28,6 +61,10 @@ export interface GameState {
 	food: Position[];
 	players: Players;
 	gameTime: number;
+	seq?: number;
+	actors?: GameActor[];
+	map?: (number | null)[][];
+	features?: GameFeature[];
 }
 
 export interface GameOver {
@@ -41,6 +78,9 @@ export interface GameOver {
 
 export interface JoinRoomPayload {
 	eoa: string;
+	sessionKey: string;
+	sessionKeySignature: string;
+	sessionKeyExpiresAt: number;
 }
 
 export interface DirectionPayload {
@@ -48,10 +88,20 @@ export interface DirectionPayload {
 	direction: Direction;
 }
 
+export interface TargetPayload {
+	x: number;
+	y: number;
+	itemId?: string;
+	ability?: boolean;
+}
+
 export type WebSocketMessageType =
 	| 'joinRoom'
 	| 'startGame'
 	| 'changeDirection'
+	| 'target'
+	| 'wait'
+	| 'rest'
 	| 'getAvailableRooms'
 	| 'room:state'
 	| 'room:ready'
@@ -60,6 +110,8 @@ export type WebSocketMessageType =
 	| 'game:started'
 	| 'game:over'
 	| 'game:update'
+	| 'game:delta'
+	| 'resync'
 	| 'onlineUsers'
 	| 'error';
 
@@ -85,12 +137,26 @@ export interface RoomCreatedMessage extends WebSocketMessage {
 export interface GameStartedMessage extends WebSocketMessage {
 	type: 'game:started';
 	roomId: string;
+	gameState?: GameState;
 }
 
 export interface GameUpdateMessage extends WebSocketMessage, GameState {
 	type: 'game:update';
 }
 
+export interface GameDeltaMessage extends WebSocketMessage {
+	type: 'game:delta';
+	roomId: string;
+	seq: number;
+	actors: {
+		updated: Array<Partial<GameActor> & { id: string }>;
+		removed: string[];
+	};
+	tiles?: [number, number, number][];
+	map?: (number | null)[][];
+	[key: string]: unknown;
+}
+
 export interface GameOverMessage extends WebSocketMessage, GameOver {
 	type: 'game:over';
 }
@@ -123,6 +189,7 @@ export type WebSocketMessages =
 	| RoomCreatedMessage
 	| GameStartedMessage
 	| GameUpdateMessage
+	| GameDeltaMessage
 	| GameOverMessage
 	| AvailableRoomsMessage
 	| OnlineUsersMessage